@@ -0,0 +1,433 @@
+// Offline renderer: reads a mesh or scene from disk and writes an SVG or PNG.
+// Runs under Node (see `npm run render -- --help`); not part of the browser bundle.
+import * as fs from "fs";
+import * as path from "path";
+import * as zlib from "zlib";
+import { Vec3 } from "../math/vec3";
+import { BoundingSphere } from "../math/boundingSphere";
+import { Quat } from "../math/quat";
+import { degToRad } from "../math/utils";
+import { Camera } from "../core/Camera";
+import { Mesh } from "../core/Mesh";
+import { Object3D } from "../core/Object3D";
+import { Scene } from "../core/Scene";
+import { Rasterizer, RasterizerRenderTarget } from "../core/Rasterizer";
+import { RecordingRenderTarget } from "../core/RecordingRenderTarget";
+import { renderFrame, RenderFrameOptions } from "../core/renderFrame";
+import { FeatureEdgeOptions, rasterizeScene } from "../core/renderHelpers";
+import { DepthCueOptions, FogMode } from "../core/depthCue";
+import { checkMeshData, MeshData, meshDataFromJSON, MeshJSON, MeshLoadMode, MeshLoadOptions } from "../io/meshLoader";
+import { parseMtl, parseObj } from "../io/objLoader";
+import { parseStl } from "../io/stlLoader";
+import { loadScene, SceneJSON } from "../io/sceneLoader";
+import { exportSvg } from "../io/svgExporter";
+import { encodePng } from "../io/pngEncoder";
+
+const USAGE = `Usage: render <input> -o <output.svg|output.png> [options]
+
+Input: mesh JSON, scene JSON, .obj or .stl. Output format follows the extension.
+
+Options:
+  -o, --output <file>     Output file (.svg or .png)
+  --width <px>            Image width (default 800)
+  --height <px>           Image height (default 600)
+  --position <x,y,z>      Camera position (default: framing the mesh bounds; scene camera otherwise)
+  --yaw <deg>             Camera yaw (default 0 for meshes; scene camera otherwise)
+  --pitch <deg>           Camera pitch (default -20 for meshes; scene camera otherwise)
+  --fov <deg>             Vertical field of view (default 60)
+  --near <n>              Near plane (default: around the mesh bounds; scene camera otherwise)
+  --far <n>               Far plane (default: around the mesh bounds; scene camera otherwise)
+  --ortho <height>        Orthographic projection with the given view height
+  --painters              Depth-sort polygons (Painter's algorithm)
+  --backface              Back-face culling
+  --hidden-line           Hidden-line removal
+  --unique-edges          Draw edges shared by polygons once
+  --feature-edges         Draw only silhouette, crease and boundary edges
+  --crease-angle <deg>    Crease threshold for --feature-edges (default 30)
+  --fog <near,far>        Fade lines toward the background by camera depth
+  --fog-mode <mode>       Fog curve for --fog: linear, exp or exp2 (default linear)
+  --validate <mode>       Check meshes: strict (fail on errors) or lenient (repair);
+                          default: no checks
+  --fill                  Filled, flat-shaded polygons
+  --debug-normals         Draw polygon normals
+  --zbuffer               PNG only: render with the z-buffer rasterizer
+  --line-width <px>       Line width (default 1)
+  --background <color>    Background color (default #000000)
+  -h, --help              Show this help
+`;
+
+interface CliOptions {
+  input: string;
+  output: string;
+  width: number;
+  height: number;
+  position?: Vec3;
+  yaw?: number;
+  pitch?: number;
+  fov?: number;
+  near?: number;
+  far?: number;
+  orthoHeight?: number;
+  painters: boolean;
+  backface: boolean;
+  hiddenLine: boolean;
+  uniqueEdges: boolean;
+  featureEdges: boolean;
+  creaseAngle?: number;
+  fog?: [number, number];
+  fogMode?: FogMode;
+  validate?: MeshLoadMode;
+  fill: boolean;
+  debugNormals: boolean;
+  zbuffer: boolean;
+  lineWidth: number;
+  background: string;
+}
+
+const BOOLEAN_FLAGS: Record<string, keyof CliOptions> = {
+  "--painters": "painters",
+  "--backface": "backface",
+  "--hidden-line": "hiddenLine",
+  "--unique-edges": "uniqueEdges",
+  "--feature-edges": "featureEdges",
+  "--fill": "fill",
+  "--debug-normals": "debugNormals",
+  "--zbuffer": "zbuffer",
+};
+
+function parseNumber(flag: string, value: string | undefined): number {
+  const n = Number(value);
+  if (value === undefined || !Number.isFinite(n)) {
+    throw new Error(`${flag} expects a number, got "${value ?? ""}"`);
+  }
+  return n;
+}
+
+function parseArgs(argv: string[]): CliOptions | null {
+  const options: Partial<CliOptions> = {
+    width: 800,
+    height: 600,
+    painters: false,
+    backface: false,
+    hiddenLine: false,
+    uniqueEdges: false,
+    featureEdges: false,
+    fill: false,
+    debugNormals: false,
+    zbuffer: false,
+    lineWidth: 1,
+    background: "#000000",
+  };
+  const rest: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const next = () => argv[++i];
+    if (arg === "-h" || arg === "--help") return null;
+    if (arg in BOOLEAN_FLAGS) {
+      (options as Record<string, unknown>)[BOOLEAN_FLAGS[arg]] = true;
+      continue;
+    }
+    switch (arg) {
+      case "-o":
+      case "--output":
+        options.output = next();
+        break;
+      case "--width":
+        options.width = parseNumber(arg, next());
+        break;
+      case "--height":
+        options.height = parseNumber(arg, next());
+        break;
+      case "--position": {
+        const value = next();
+        const parts = (value ?? "").split(",").map(Number);
+        if (parts.length !== 3 || parts.some((p) => !Number.isFinite(p))) {
+          throw new Error(`--position expects x,y,z, got "${value ?? ""}"`);
+        }
+        options.position = new Vec3(parts[0], parts[1], parts[2]);
+        break;
+      }
+      case "--yaw":
+        options.yaw = degToRad(parseNumber(arg, next()));
+        break;
+      case "--pitch":
+        options.pitch = degToRad(parseNumber(arg, next()));
+        break;
+      case "--fov":
+        options.fov = degToRad(parseNumber(arg, next()));
+        break;
+      case "--near":
+        options.near = parseNumber(arg, next());
+        break;
+      case "--far":
+        options.far = parseNumber(arg, next());
+        break;
+      case "--ortho":
+        options.orthoHeight = parseNumber(arg, next());
+        if (options.orthoHeight <= 0) throw new Error("--ortho expects a positive height");
+        break;
+      case "--crease-angle":
+        options.creaseAngle = degToRad(parseNumber(arg, next()));
+        break;
+      case "--fog": {
+        const value = next();
+        const parts = (value ?? "").split(",").map(Number);
+        if (parts.length !== 2 || parts.some((p) => !Number.isFinite(p)) || parts[1] <= parts[0]) {
+          throw new Error(`--fog expects near,far with far > near, got "${value ?? ""}"`);
+        }
+        options.fog = [parts[0], parts[1]];
+        break;
+      }
+      case "--fog-mode": {
+        const value = next();
+        if (value !== "linear" && value !== "exp" && value !== "exp2") {
+          throw new Error(`--fog-mode expects linear, exp or exp2, got "${value ?? ""}"`);
+        }
+        options.fogMode = value;
+        break;
+      }
+      case "--validate": {
+        const value = next();
+        if (value !== "strict" && value !== "lenient") {
+          throw new Error(`--validate expects strict or lenient, got "${value ?? ""}"`);
+        }
+        options.validate = value;
+        break;
+      }
+      case "--line-width":
+        options.lineWidth = parseNumber(arg, next());
+        break;
+      case "--background":
+        options.background = next();
+        break;
+      default:
+        if (arg.startsWith("-")) throw new Error(`Unknown option ${arg}`);
+        rest.push(arg);
+    }
+  }
+
+  if (rest.length !== 1) throw new Error("Expected exactly one input file");
+  if (!options.output) throw new Error("Missing --output");
+  if (!Number.isInteger(options.width) || !Number.isInteger(options.height)) {
+    throw new Error("--width and --height must be integers");
+  }
+  options.input = rest[0];
+  return options as CliOptions;
+}
+
+/**
+ * Read mesh data from a mesh JSON, OBJ (with mtllib next to it) or STL file,
+ * checked according to the load mode.
+ */
+function readMeshFile(file: string, text: string | null, meshLoad: MeshLoadOptions): MeshData {
+  const ext = path.extname(file).toLowerCase();
+  if (ext === ".stl") {
+    const bytes = fs.readFileSync(file);
+    const data = parseStl(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+    return checkMeshData(data, meshLoad);
+  }
+  const source = text ?? fs.readFileSync(file, "utf8");
+  if (ext === ".obj") {
+    const materials: Record<string, string> = {};
+    for (const match of source.matchAll(/^\s*mtllib\s+(.+?)\s*$/gm)) {
+      const mtl = path.join(path.dirname(file), match[1]);
+      Object.assign(materials, parseMtl(fs.readFileSync(mtl, "utf8")));
+    }
+    return checkMeshData(parseObj(source, { materials }), meshLoad);
+  }
+  return meshDataFromJSON(JSON.parse(source) as MeshJSON, meshLoad);
+}
+
+/**
+ * Build the scene to render: scene files as-is, single meshes at the origin
+ * with the default demo camera.
+ */
+async function readScene(file: string, meshLoad: MeshLoadOptions): Promise<{ scene: Scene; isMesh: boolean }> {
+  if (path.extname(file).toLowerCase() === ".json") {
+    const text = fs.readFileSync(file, "utf8");
+    const json = JSON.parse(text) as SceneJSON | MeshJSON;
+    if ("objects" in json) {
+      const scene = await loadScene(json, {
+        baseUrl: file,
+        fetchMesh: async (url) => JSON.parse(fs.readFileSync(url, "utf8")) as MeshJSON,
+        meshLoad,
+      });
+      return { scene, isMesh: false };
+    }
+    const mesh = Mesh.fromData(readMeshFile(file, text, meshLoad));
+    const scene = new Scene(new Camera(Vec3.zero()));
+    scene.add(new Object3D(mesh));
+    return { scene, isMesh: true };
+  }
+
+  const mesh = Mesh.fromData(readMeshFile(file, null, meshLoad));
+  const scene = new Scene(new Camera(Vec3.zero()));
+  scene.add(new Object3D(mesh));
+  return { scene, isMesh: true };
+}
+
+/** Default mesh view: looking 20 degrees down (like the demo camera). */
+const MESH_VIEW_PITCH = -degToRad(20);
+
+/** Room around a framed mesh: its bounding sphere is scaled by this before fitting. */
+const FRAME_MARGIN = 1.1;
+
+/**
+ * Apply camera flags. Scene cameras are only overridden where a flag is given
+ * (--yaw or --pitch alone keeps the other angle). Meshes are viewed from yaw 0,
+ * pitch -20 degrees unless set, and without --position the camera is placed to
+ * frame the mesh bounds, with near/far around them unless given.
+ */
+function applyCamera(scene: Scene, options: CliOptions, isMesh: boolean): void {
+  const camera = scene.camera;
+  if (isMesh || options.yaw !== undefined || options.pitch !== undefined) {
+    const current = isMesh ? { yaw: 0, pitch: MESH_VIEW_PITCH, roll: 0 } : camera.orientation.toEuler();
+    camera.orientation = Quat.fromEuler(options.yaw ?? current.yaw, options.pitch ?? current.pitch, current.roll);
+  }
+  if (options.fov !== undefined) camera.fovYRad = options.fov;
+  if (options.near !== undefined) camera.near = options.near;
+  if (options.far !== undefined) camera.far = options.far;
+  if (options.orthoHeight !== undefined) {
+    camera.projection = "orthographic";
+    camera.orthoHeight = options.orthoHeight;
+  }
+
+  if (options.position) {
+    camera.position = options.position;
+  } else if (isMesh) {
+    const bounds = scene.objects[0].getWorldBoundingSphere();
+    if (bounds) frameSphere(camera, bounds, options);
+  }
+}
+
+/**
+ * Move the camera back along its view direction until the sphere fits both the
+ * vertical and horizontal field of view (for orthographic cameras, just outside it).
+ */
+function frameSphere(camera: Camera, sphere: BoundingSphere, options: CliOptions): void {
+  const radius = (sphere.radius > 0 ? sphere.radius : 1) * FRAME_MARGIN;
+  const halfFovY = camera.fovYRad / 2;
+  const halfFovX = Math.atan(Math.tan(halfFovY) * (options.width / options.height));
+  const distance = camera.isOrthographic() ? 2 * radius : radius / Math.sin(Math.min(halfFovY, halfFovX));
+
+  const forward = camera.orientation.rotateVec3(new Vec3(0, 0, -1));
+  camera.position = sphere.center.sub(forward.scale(distance));
+  if (options.near === undefined) camera.near = distance - radius;
+  if (options.far === undefined) camera.far = distance + radius;
+}
+
+async function main(argv: string[]): Promise<number> {
+  let options: CliOptions | null;
+  try {
+    options = parseArgs(argv);
+  } catch (error) {
+    console.error(`render: ${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+  if (!options) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  // Report what validation found (or repaired), except unused vertices
+  const meshLoad: MeshLoadOptions = {
+    mode: options.validate,
+    onReport: (report) => {
+      for (const issue of report.issues) {
+        if (issue.severity !== "info") console.error(`render: mesh ${issue.severity}: ${issue.message}`);
+      }
+    },
+  };
+  const { scene, isMesh } = await readScene(options.input, meshLoad);
+  applyCamera(scene, options, isMesh);
+
+  // Silhouettes twice as thick as creases and borders
+  const featureEdges: FeatureEdgeOptions | undefined = options.featureEdges
+    ? {
+        silhouette: { lineWidth: options.lineWidth * 2 },
+        crease: {},
+        boundary: {},
+        creaseAngle: options.creaseAngle,
+      }
+    : undefined;
+
+  // Fog fades toward the background, continuously along each line
+  const depthCue: DepthCueOptions | undefined = options.fog
+    ? {
+        mode: options.fogMode,
+        near: options.fog[0],
+        far: options.fog[1],
+        color: options.background,
+        gradient: true,
+      }
+    : undefined;
+
+  const frameOptions: RenderFrameOptions = {
+    clearColor: options.background,
+    lineWidth: options.lineWidth,
+    debugShowDirection: options.debugNormals,
+    applyPaintersAlgorithm: options.painters,
+    applyBackFaceCulling: options.backface,
+    applyHiddenLineRemoval: options.hiddenLine,
+    uniqueEdges: options.uniqueEdges,
+    featureEdges,
+    depthCue,
+    fillPolygons: options.fill,
+    outlineColor: options.fill ? "#000000" : undefined,
+    flatShading: options.fill ? { lightDirection: new Vec3(-0.5, -1, -0.75) } : undefined,
+  };
+
+  const ext = path.extname(options.output).toLowerCase();
+  if (ext === ".svg") {
+    const target = new RecordingRenderTarget(options.width, options.height);
+    const result = renderFrame(target, scene, frameOptions);
+    const svg = exportSvg(
+      result,
+      { width: options.width, height: options.height },
+      { background: options.background, lineWidth: options.lineWidth },
+    );
+    fs.writeFileSync(options.output, svg);
+  } else if (ext === ".png") {
+    const rasterizer = new Rasterizer(options.width, options.height);
+    if (options.zbuffer) {
+      const camera = scene.camera;
+      const viewProj = camera
+        .getProjectionMatrix(options.width / options.height)
+        .multiply(camera.getViewMatrix());
+      rasterizer.clear(options.background);
+      rasterizeScene(scene, viewProj, rasterizer, {
+        applyBackFaceCulling: options.backface,
+        fillPolygons: options.fill,
+        hideOccludedLines: options.hiddenLine,
+        uniqueEdges: options.uniqueEdges,
+        featureEdges,
+        depthCue,
+        lineColor: frameOptions.outlineColor,
+        lineWidth: options.lineWidth,
+        flatShading: frameOptions.flatShading,
+      });
+    } else {
+      renderFrame(new RasterizerRenderTarget(rasterizer), scene, frameOptions);
+    }
+    fs.writeFileSync(
+      options.output,
+      encodePng(options.width, options.height, rasterizer.colorBuffer, { deflate: (data) => zlib.deflateSync(data) }),
+    );
+  } else {
+    console.error(`render: unsupported output format "${ext}" (use .svg or .png)`);
+    return 2;
+  }
+
+  return 0;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error: unknown) => {
+    console.error(`render: ${error instanceof Error ? error.message : String(error)}`);
+    process.exitCode = 1;
+  },
+);
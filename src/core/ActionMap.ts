@@ -0,0 +1,373 @@
+/** Current input bindings format version. */
+export const INPUT_BINDINGS_VERSION = 1;
+
+/**
+ * One physical input feeding an action. `scale` (default 1) weights the raw
+ * value, e.g. -1 for the "negative" key of an axis or a small factor for mouse pixels.
+ *
+ * - key: KeyboardEvent.code (layout-independent, e.g. "KeyW", "ArrowLeft"); 1 while held
+ * - mouseButton: MouseEvent.button; 1 while held
+ * - mouseAxis: mouse movement in pixels since the last frame
+ * - wheel: wheel delta in pixels since the last frame
+ * - gamepadAxis: Gamepad API axis value in [-1, 1], with a dead zone (default 0.15)
+ * - gamepadButton: Gamepad API button value in [0, 1]
+ */
+export type InputBinding =
+  | { type: "key"; code: string; scale?: number }
+  | { type: "mouseButton"; button: number; scale?: number }
+  | { type: "mouseAxis"; axis: "x" | "y"; scale?: number }
+  | { type: "wheel"; scale?: number }
+  | { type: "gamepadAxis"; axis: number; gamepad?: number; deadZone?: number; scale?: number }
+  | { type: "gamepadButton"; button: number; gamepad?: number; scale?: number };
+
+/** Bindings of one named action, with per-action sensitivity and inversion. */
+export interface ActionConfig {
+  bindings: InputBinding[];
+  /** Multiplies the summed binding values. Default 1. */
+  sensitivity?: number;
+  /** When true, the action value is negated (e.g. inverted look). */
+  invert?: boolean;
+}
+
+/** Serializable set of action bindings (e.g. saved user remapping). */
+export interface InputBindingsJSON {
+  version: number;
+  actions: Record<string, ActionConfig>;
+}
+
+/**
+ * Where raw input comes from: the DOM (see DomInputSource) or a simulated
+ * source for tests and scripted playback.
+ */
+export interface InputSource {
+  /** Start listening for input on the element (optional). */
+  attach?(element: HTMLElement): void;
+  /** Stop listening (optional). */
+  detach?(): void;
+  /** Called once per frame before reading; latches per-frame deltas. */
+  poll(): void;
+  isKeyDown(code: string): boolean;
+  isMouseButtonDown(button: number): boolean;
+  /** Mouse movement in pixels during the last polled frame. */
+  getMouseDelta(): { x: number; y: number };
+  /** Wheel delta in pixels during the last polled frame (see wheelDeltaPixels). */
+  getWheelDelta(): number;
+  /** Axis value in [-1, 1]; 0 when the gamepad or axis is missing. */
+  getGamepadAxis(gamepad: number, axis: number): number;
+  /** Button value in [0, 1]; 0 when the gamepad or button is missing. */
+  getGamepadButton(gamepad: number, button: number): number;
+}
+
+/** Default gamepad stick dead zone. */
+const DEFAULT_DEAD_ZONE = 0.15;
+
+/**
+ * Default fly-camera bindings: WASD / left stick to move, arrow keys, mouse and
+ * right stick to look. Action values are fractions of the controller's full speed.
+ */
+export const DEFAULT_FLY_BINDINGS: InputBindingsJSON = {
+  version: INPUT_BINDINGS_VERSION,
+  actions: {
+    moveForward: {
+      bindings: [
+        { type: "key", code: "KeyW" },
+        { type: "key", code: "KeyS", scale: -1 },
+        { type: "gamepadAxis", axis: 1, scale: -1 },
+      ],
+    },
+    strafe: {
+      bindings: [
+        { type: "key", code: "KeyD" },
+        { type: "key", code: "KeyA", scale: -1 },
+        { type: "gamepadAxis", axis: 0 },
+      ],
+    },
+    lookYaw: {
+      bindings: [
+        { type: "key", code: "ArrowLeft" },
+        { type: "key", code: "ArrowRight", scale: -1 },
+        { type: "mouseAxis", axis: "x", scale: -0.0025 },
+        { type: "gamepadAxis", axis: 2, scale: -1 },
+      ],
+    },
+    lookPitch: {
+      bindings: [
+        { type: "key", code: "ArrowUp" },
+        { type: "key", code: "ArrowDown", scale: -1 },
+        { type: "mouseAxis", axis: "y", scale: -0.0025 },
+        { type: "gamepadAxis", axis: 3, scale: -1 },
+      ],
+    },
+  },
+};
+
+/**
+ * Maps physical inputs to named actions (moveForward, lookYaw, ...).
+ *
+ * Call `update()` once per frame, then read actions with `get`. Held inputs
+ * (keys, buttons, sticks) are rates and are multiplied by `deltaTime`; mouse
+ * movement and wheel are already per-frame amounts and are not.
+ * Bindings can be changed at runtime and round-trip through `toJSON`/`fromJSON`.
+ */
+export class ActionMap {
+  readonly source: InputSource;
+  private actions: Record<string, ActionConfig>;
+
+  constructor(bindings: InputBindingsJSON, source: InputSource) {
+    this.actions = ActionMap.parseBindings(bindings);
+    this.source = source;
+  }
+
+  /** Names of all bound actions. */
+  get actionNames(): string[] {
+    return Object.keys(this.actions);
+  }
+
+  /** Latch this frame's input from the source. */
+  update(): void {
+    this.source.poll();
+  }
+
+  /**
+   * Current value of an action for a frame of `deltaTime` seconds
+   * (0 for unknown actions).
+   */
+  get(action: string, deltaTime: number): number {
+    const config = this.actions[action];
+    if (!config) return 0;
+
+    let value = 0;
+    for (const binding of config.bindings) {
+      value += this.readBinding(binding, deltaTime) * (binding.scale ?? 1);
+    }
+    value *= config.sensitivity ?? 1;
+    return config.invert ? -value : value;
+  }
+
+  /** Whether any binding of the action is currently producing input. */
+  isActive(action: string): boolean {
+    return this.get(action, 1) !== 0;
+  }
+
+  getAction(action: string): ActionConfig | undefined {
+    return this.actions[action];
+  }
+
+  /** Replace (or add) the bindings of one action. */
+  setAction(action: string, config: ActionConfig): void {
+    this.actions = {
+      ...this.actions,
+      ...ActionMap.parseBindings({ version: INPUT_BINDINGS_VERSION, actions: { [action]: config } }),
+    };
+  }
+
+  removeAction(action: string): void {
+    const { [action]: _removed, ...rest } = this.actions;
+    this.actions = rest;
+  }
+
+  toJSON(): InputBindingsJSON {
+    return {
+      version: INPUT_BINDINGS_VERSION,
+      actions: JSON.parse(JSON.stringify(this.actions)) as Record<string, ActionConfig>,
+    };
+  }
+
+  /**
+   * Build an action map from saved bindings.
+   * Throws with a descriptive message for an unsupported version or malformed bindings.
+   */
+  static fromJSON(json: InputBindingsJSON, source: InputSource): ActionMap {
+    return new ActionMap(json, source);
+  }
+
+  private readBinding(binding: InputBinding, deltaTime: number): number {
+    const source = this.source;
+    switch (binding.type) {
+      case "key":
+        return source.isKeyDown(binding.code) ? deltaTime : 0;
+      case "mouseButton":
+        return source.isMouseButtonDown(binding.button) ? deltaTime : 0;
+      case "mouseAxis":
+        return source.getMouseDelta()[binding.axis];
+      case "wheel":
+        return source.getWheelDelta();
+      case "gamepadAxis": {
+        const raw = source.getGamepadAxis(binding.gamepad ?? 0, binding.axis);
+        return applyDeadZone(raw, binding.deadZone ?? DEFAULT_DEAD_ZONE) * deltaTime;
+      }
+      case "gamepadButton":
+        return source.getGamepadButton(binding.gamepad ?? 0, binding.button) * deltaTime;
+    }
+  }
+
+  /**
+   * Validate bindings JSON and return a deep copy of its actions.
+   */
+  private static parseBindings(json: InputBindingsJSON): Record<string, ActionConfig> {
+    if (!json || typeof json !== "object") {
+      throw new Error("Input bindings: expected a JSON object");
+    }
+    if (json.version !== INPUT_BINDINGS_VERSION) {
+      throw new Error(
+        `Input bindings: unsupported format version ${String(json.version)} (expected ${INPUT_BINDINGS_VERSION})`,
+      );
+    }
+    if (!json.actions || typeof json.actions !== "object") {
+      throw new Error("Input bindings: \"actions\" must be an object");
+    }
+
+    const out: Record<string, ActionConfig> = {};
+    for (const [name, config] of Object.entries(json.actions)) {
+      if (!config || !Array.isArray(config.bindings)) {
+        throw new Error(`Input bindings: action "${name}" must have a "bindings" array`);
+      }
+      if (config.sensitivity !== undefined && !Number.isFinite(config.sensitivity)) {
+        throw new Error(`Input bindings: action "${name}" sensitivity must be a number`);
+      }
+      config.bindings.forEach((binding, i) => validateBinding(binding, `action "${name}" binding ${i}`));
+      out[name] = JSON.parse(JSON.stringify(config)) as ActionConfig;
+    }
+    return out;
+  }
+}
+
+/**
+ * Input source driven by code instead of devices: for tests, demos and replays.
+ * Deltas (mouse, wheel) accumulate until the next `poll`, like the DOM source.
+ */
+export class SimulatedInputSource implements InputSource {
+  private readonly keys = new Set<string>();
+  private readonly mouseButtons = new Set<number>();
+  private readonly gamepadAxes = new Map<string, number>();
+  private readonly gamepadButtons = new Map<string, number>();
+  private pendingMouse = { x: 0, y: 0 };
+  private pendingWheel = 0;
+  private mouseDelta = { x: 0, y: 0 };
+  private wheelDelta = 0;
+
+  pressKey(code: string): void {
+    this.keys.add(code);
+  }
+
+  releaseKey(code: string): void {
+    this.keys.delete(code);
+  }
+
+  setMouseButton(button: number, down: boolean): void {
+    if (down) this.mouseButtons.add(button);
+    else this.mouseButtons.delete(button);
+  }
+
+  moveMouse(dx: number, dy: number): void {
+    this.pendingMouse = { x: this.pendingMouse.x + dx, y: this.pendingMouse.y + dy };
+  }
+
+  scrollWheel(delta: number): void {
+    this.pendingWheel += delta;
+  }
+
+  setGamepadAxis(gamepad: number, axis: number, value: number): void {
+    this.gamepadAxes.set(`${gamepad}:${axis}`, value);
+  }
+
+  setGamepadButton(gamepad: number, button: number, value: number): void {
+    this.gamepadButtons.set(`${gamepad}:${button}`, value);
+  }
+
+  /** Release all keys and buttons and center all axes. */
+  reset(): void {
+    this.keys.clear();
+    this.mouseButtons.clear();
+    this.gamepadAxes.clear();
+    this.gamepadButtons.clear();
+    this.pendingMouse = { x: 0, y: 0 };
+    this.pendingWheel = 0;
+  }
+
+  poll(): void {
+    this.mouseDelta = this.pendingMouse;
+    this.wheelDelta = this.pendingWheel;
+    this.pendingMouse = { x: 0, y: 0 };
+    this.pendingWheel = 0;
+  }
+
+  isKeyDown(code: string): boolean {
+    return this.keys.has(code);
+  }
+
+  isMouseButtonDown(button: number): boolean {
+    return this.mouseButtons.has(button);
+  }
+
+  getMouseDelta(): { x: number; y: number } {
+    return this.mouseDelta;
+  }
+
+  getWheelDelta(): number {
+    return this.wheelDelta;
+  }
+
+  getGamepadAxis(gamepad: number, axis: number): number {
+    return this.gamepadAxes.get(`${gamepad}:${axis}`) ?? 0;
+  }
+
+  getGamepadButton(gamepad: number, button: number): number {
+    return this.gamepadButtons.get(`${gamepad}:${button}`) ?? 0;
+  }
+}
+
+/**
+ * Zero inside the dead zone, rescaled so the output still reaches +-1 at full tilt.
+ */
+function applyDeadZone(value: number, deadZone: number): number {
+  const magnitude = Math.abs(value);
+  if (magnitude <= deadZone) return 0;
+  return (Math.sign(value) * (Math.min(magnitude, 1) - deadZone)) / (1 - deadZone);
+}
+
+function validateBinding(binding: InputBinding, label: string): void {
+  if (!binding || typeof binding !== "object") {
+    throw new Error(`Input bindings: ${label} must be an object`);
+  }
+  if (binding.scale !== undefined && !Number.isFinite(binding.scale)) {
+    throw new Error(`Input bindings: ${label} scale must be a number`);
+  }
+  const isIndex = (n: unknown) => Number.isInteger(n) && (n as number) >= 0;
+  switch (binding.type) {
+    case "key":
+      if (typeof binding.code !== "string" || binding.code === "") {
+        throw new Error(`Input bindings: ${label} needs a key "code"`);
+      }
+      return;
+    case "mouseButton":
+      if (!isIndex(binding.button)) throw new Error(`Input bindings: ${label} needs a "button" index`);
+      return;
+    case "mouseAxis":
+      if (binding.axis !== "x" && binding.axis !== "y") {
+        throw new Error(`Input bindings: ${label} axis must be "x" or "y"`);
+      }
+      return;
+    case "wheel":
+      return;
+    case "gamepadAxis":
+      if (!isIndex(binding.axis)) throw new Error(`Input bindings: ${label} needs an "axis" index`);
+      if (binding.gamepad !== undefined && !isIndex(binding.gamepad)) {
+        throw new Error(`Input bindings: ${label} gamepad must be an index`);
+      }
+      if (binding.deadZone !== undefined && !(binding.deadZone >= 0 && binding.deadZone < 1)) {
+        throw new Error(`Input bindings: ${label} deadZone must be in [0, 1)`);
+      }
+      return;
+    case "gamepadButton":
+      if (!isIndex(binding.button)) throw new Error(`Input bindings: ${label} needs a "button" index`);
+      if (binding.gamepad !== undefined && !isIndex(binding.gamepad)) {
+        throw new Error(`Input bindings: ${label} gamepad must be an index`);
+      }
+      return;
+    default:
+      throw new Error(
+        `Input bindings: ${label} has unknown type "${String((binding as { type?: unknown }).type)}"`,
+      );
+  }
+}
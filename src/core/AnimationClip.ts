@@ -0,0 +1,205 @@
+import { Quat } from "../math/quat";
+
+/**
+ * How values are interpolated between two keyframes:
+ * - "step": hold the earlier keyframe's value until the next keyframe
+ * - "linear": straight interpolation (slerp for orientations)
+ * - "cubic": smooth curve through the keyframes (Catmull-Rom tangents)
+ * - "easeIn" / "easeOut" / "easeInOut": linear path with quadratic easing in time
+ */
+export type Interpolation = "step" | "linear" | "cubic" | "easeIn" | "easeOut" | "easeInOut";
+
+/**
+ * Animated property of the target:
+ * - "position", "scale": Vec3 values [x, y, z] (the camera has no scale)
+ * - "rotation": Object3D Euler angles [x, y, z] in radians, interpolated per angle
+ * - "orientation": quaternion [x, y, z, w], interpolated along the shorter arc
+ *   (sets Camera.orientation, or Object3D.rotation via setOrientation)
+ */
+export type TrackProperty = "position" | "rotation" | "scale" | "orientation";
+
+/** Target name that refers to the scene camera instead of an object. */
+export const CAMERA_TARGET = "camera";
+
+/**
+ * Keyframes of one property of one target. Targets are referenced by name
+ * (Object3D.name, or CAMERA_TARGET) so clips can be authored without code;
+ * the mixer resolves them against a scene.
+ */
+export class KeyframeTrack {
+  readonly target: string;
+  readonly property: TrackProperty;
+  /** Keyframe times in seconds, strictly increasing. */
+  readonly times: readonly number[];
+  /** One value per keyframe: 3 numbers, or 4 for "orientation". */
+  readonly values: readonly (readonly number[])[];
+  readonly interpolation: Interpolation;
+
+  constructor(
+    target: string,
+    property: TrackProperty,
+    times: number[],
+    values: number[][],
+    interpolation: Interpolation = "linear",
+  ) {
+    const label = `Animation: track "${target}.${property}"`;
+    if (times.length === 0) {
+      throw new Error(`${label} has no keyframes`);
+    }
+    if (times.length !== values.length) {
+      throw new Error(`${label} has ${times.length} times but ${values.length} values`);
+    }
+    const size = property === "orientation" ? 4 : 3;
+    times.forEach((time, i) => {
+      if (!Number.isFinite(time) || (i > 0 && time <= times[i - 1])) {
+        throw new Error(`${label} keyframe ${i} time must be a number greater than the previous one`);
+      }
+      if (values[i].length !== size || !values[i].every(Number.isFinite)) {
+        throw new Error(`${label} keyframe ${i} value must be ${size} numbers`);
+      }
+    });
+
+    this.target = target;
+    this.property = property;
+    this.times = times;
+    this.values = property === "orientation" ? alignQuaternions(values) : values;
+    this.interpolation = interpolation;
+  }
+
+  /** True for quaternion tracks (blended with slerp). */
+  get isQuaternion(): boolean {
+    return this.property === "orientation";
+  }
+
+  /** Time of the last keyframe. */
+  get endTime(): number {
+    return this.times[this.times.length - 1];
+  }
+
+  /**
+   * Value at a time in seconds. Before the first / after the last keyframe
+   * the first / last value is held.
+   */
+  sample(time: number): number[] {
+    const times = this.times;
+    const values = this.values;
+    const last = times.length - 1;
+    if (time <= times[0]) return values[0].slice();
+    if (time >= times[last]) return values[last].slice();
+
+    // Last keyframe at or before `time` (binary search)
+    let lo = 0;
+    let hi = last;
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1;
+      if (times[mid] <= time) lo = mid;
+      else hi = mid;
+    }
+    const i = lo;
+    const t0 = times[i];
+    const t1 = times[i + 1];
+    const u = (time - t0) / (t1 - t0);
+
+    switch (this.interpolation) {
+      case "step":
+        return values[i].slice();
+      case "cubic":
+        return this.sampleCubic(i, u);
+      default:
+        return interpolateValue(values[i], values[i + 1], ease(this.interpolation, u), this.isQuaternion);
+    }
+  }
+
+  /**
+   * Cubic Hermite segment from keyframe i to i + 1, with Catmull-Rom tangents
+   * (finite differences over the neighbouring keyframes, scaled to the segment
+   * length so uneven keyframe spacing does not overshoot). Quaternions are
+   * interpolated per component and renormalized.
+   */
+  private sampleCubic(i: number, u: number): number[] {
+    const times = this.times;
+    const values = this.values;
+    const last = times.length - 1;
+    const p0 = values[i];
+    const p1 = values[i + 1];
+    const dt = times[i + 1] - times[i];
+    const prev = Math.max(i - 1, 0);
+    const next = Math.min(i + 2, last);
+    const m0 = tangent(values[prev], values[i + 1], times[i + 1] - times[prev], dt);
+    const m1 = tangent(values[i], values[next], times[next] - times[i], dt);
+
+    const u2 = u * u;
+    const u3 = u2 * u;
+    const h00 = 2 * u3 - 3 * u2 + 1;
+    const h10 = u3 - 2 * u2 + u;
+    const h01 = -2 * u3 + 3 * u2;
+    const h11 = u3 - u2;
+    const out = p0.map((a, k) => h00 * a + h10 * m0[k] + h01 * p1[k] + h11 * m1[k]);
+    if (!this.isQuaternion) return out;
+    const q = new Quat(out[0], out[1], out[2], out[3]).normalize();
+    return [q.x, q.y, q.z, q.w];
+  }
+}
+
+/**
+ * A named set of tracks played together, e.g. "spin" or "camera flyby".
+ */
+export class AnimationClip {
+  readonly name: string;
+  readonly tracks: readonly KeyframeTrack[];
+  /** Length in seconds; defaults to the last keyframe time of all tracks. */
+  readonly duration: number;
+
+  constructor(name: string, tracks: KeyframeTrack[], duration?: number) {
+    if (duration !== undefined && !(Number.isFinite(duration) && duration >= 0)) {
+      throw new Error(`Animation: clip "${name}" duration must be a non-negative number`);
+    }
+    this.name = name;
+    this.tracks = tracks;
+    this.duration = duration ?? tracks.reduce((max, track) => Math.max(max, track.endTime), 0);
+  }
+}
+
+/**
+ * Interpolate two track values: slerp for quaternions, per component otherwise.
+ * Also used by the mixer to blend clips.
+ */
+export function interpolateValue(a: readonly number[], b: readonly number[], t: number, quaternion: boolean): number[] {
+  if (quaternion) {
+    const q = new Quat(a[0], a[1], a[2], a[3]).slerp(new Quat(b[0], b[1], b[2], b[3]), t);
+    return [q.x, q.y, q.z, q.w];
+  }
+  return a.map((value, k) => value + (b[k] - value) * t);
+}
+
+function ease(interpolation: Interpolation, u: number): number {
+  switch (interpolation) {
+    case "easeIn":
+      return u * u;
+    case "easeOut":
+      return 1 - (1 - u) * (1 - u);
+    case "easeInOut":
+      return u < 0.5 ? 2 * u * u : 1 - 2 * (1 - u) * (1 - u);
+    default:
+      return u;
+  }
+}
+
+/** Slope (b - a) / span, scaled to a segment of length dt. */
+function tangent(a: readonly number[], b: readonly number[], span: number, dt: number): number[] {
+  return a.map((value, k) => (span > 0 ? ((b[k] - value) / span) * dt : 0));
+}
+
+/**
+ * Flip quaternion keyframes onto the same hemisphere as their predecessor
+ * (q and -q are the same rotation), so cubic interpolation takes the short way.
+ */
+function alignQuaternions(values: number[][]): number[][] {
+  const out: number[][] = [];
+  for (const value of values) {
+    const prev = out[out.length - 1];
+    const dot = prev ? value.reduce((sum, v, k) => sum + v * prev[k], 0) : 1;
+    out.push(dot < 0 ? value.map((v) => -v) : value.slice());
+  }
+  return out;
+}
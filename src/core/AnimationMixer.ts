@@ -0,0 +1,261 @@
+import { Vec3 } from "../math/vec3";
+import { Quat } from "../math/quat";
+import { AnimationClip, CAMERA_TARGET, interpolateValue, TrackProperty } from "./AnimationClip";
+import { Scene } from "./Scene";
+
+/**
+ * What happens when an action's time runs past the clip duration:
+ * - "once": stop at the last frame (the action is then finished)
+ * - "repeat": wrap around to the start
+ * - "pingpong": play backwards to the start, then forwards again
+ */
+export type LoopMode = "once" | "repeat" | "pingpong";
+
+export interface PlayOptions {
+  /** Default "repeat". */
+  loop?: LoopMode;
+  /** Blend weight (0 = no influence). Default 1. */
+  weight?: number;
+  /** Playback speed; negative plays backwards. Default 1. */
+  timeScale?: number;
+  /** Action time to start at, in seconds. Default 0. */
+  startTime?: number;
+}
+
+/**
+ * A clip being played by a mixer, with its own clock, loop mode and weight.
+ * Fields can be changed while playing (e.g. ramp `weight` to cross-fade).
+ */
+export class AnimationAction {
+  readonly clip: AnimationClip;
+  /** Seconds since the start of playback (not wrapped by looping). */
+  time: number;
+  weight: number;
+  timeScale: number;
+  loop: LoopMode;
+  /** Paused actions keep their pose and weight but their time does not advance. */
+  paused = false;
+
+  constructor(clip: AnimationClip, options?: PlayOptions) {
+    this.clip = clip;
+    this.time = options?.startTime ?? 0;
+    this.weight = options?.weight ?? 1;
+    this.timeScale = options?.timeScale ?? 1;
+    this.loop = options?.loop ?? "repeat";
+  }
+
+  play(): void {
+    this.paused = false;
+  }
+
+  pause(): void {
+    this.paused = true;
+  }
+
+  /** True when a "once" action has reached the end (or the start, playing backwards). */
+  get isFinished(): boolean {
+    if (this.loop !== "once") return false;
+    return this.timeScale >= 0 ? this.time >= this.clip.duration : this.time <= 0;
+  }
+
+  /** Position in the clip (0..duration) for the current time and loop mode. */
+  getClipTime(): number {
+    const duration = this.clip.duration;
+    if (duration <= 0) return 0;
+    switch (this.loop) {
+      case "once":
+        return Math.min(Math.max(this.time, 0), duration);
+      case "repeat":
+        return ((this.time % duration) + duration) % duration;
+      case "pingpong": {
+        const phase = ((this.time % (2 * duration)) + 2 * duration) % (2 * duration);
+        return phase <= duration ? phase : 2 * duration - phase;
+      }
+    }
+  }
+}
+
+/** A resolved target property the mixer writes to. */
+interface PropertyBinding {
+  quaternion: boolean;
+  /** Value before any clip was applied; partial weights blend towards it. */
+  rest: number[];
+  write(value: number[]): void;
+}
+
+/**
+ * Plays animation clips on a scene and blends them.
+ *
+ * Track targets are resolved by name when a clip is played: CAMERA_TARGET is the
+ * scene camera, any other name the first object with that name in the scene graph.
+ *
+ * Each frame, every action with a non-zero weight is sampled at its clip time.
+ * Values for the same property are blended by weight (lerp, or slerp for
+ * orientations). When the weights add up to less than 1, the result is blended
+ * towards the property's rest value (its value when it was first animated).
+ * Stopped actions leave their properties at the last applied value.
+ */
+export class AnimationMixer {
+  readonly scene: Scene;
+
+  private readonly _actions: AnimationAction[] = [];
+  private readonly bindings = new Map<string, PropertyBinding>();
+
+  constructor(scene: Scene) {
+    this.scene = scene;
+  }
+
+  get actions(): readonly AnimationAction[] {
+    return this._actions;
+  }
+
+  /**
+   * Start playing a clip. Throws if a track targets an unknown object or a
+   * property the target does not have.
+   */
+  play(clip: AnimationClip, options?: PlayOptions): AnimationAction {
+    for (const track of clip.tracks) {
+      this.bind(track.target, track.property);
+    }
+    const action = new AnimationAction(clip, options);
+    this._actions.push(action);
+    return action;
+  }
+
+  /**
+   * Remove an action. Returns false if it is not playing in this mixer.
+   */
+  stop(action: AnimationAction): boolean {
+    const i = this._actions.indexOf(action);
+    if (i === -1) return false;
+    this._actions.splice(i, 1);
+    return true;
+  }
+
+  stopAll(): void {
+    this._actions.length = 0;
+  }
+
+  /**
+   * Advance unpaused actions by deltaTime seconds (times their timeScale) and apply.
+   */
+  update(deltaTime: number): void {
+    for (const action of this._actions) {
+      if (!action.paused) action.time += deltaTime * action.timeScale;
+    }
+    this.apply();
+  }
+
+  /**
+   * Set every action to an absolute time in seconds and apply
+   * (e.g. scrubbing a timeline).
+   */
+  setTime(time: number): void {
+    for (const action of this._actions) {
+      action.time = time;
+    }
+    this.apply();
+  }
+
+  /**
+   * Sample and blend all actions at their current times and write the results
+   * to the targets.
+   */
+  apply(): void {
+    const blended = new Map<PropertyBinding, { value: number[]; weight: number }>();
+    for (const action of this._actions) {
+      if (action.weight <= 0) continue;
+      const clipTime = action.getClipTime();
+      for (const track of action.clip.tracks) {
+        const binding = this.bindings.get(bindingKey(track.target, track.property))!;
+        const value = track.sample(clipTime);
+        const entry = blended.get(binding);
+        if (!entry) {
+          blended.set(binding, { value, weight: action.weight });
+        } else {
+          entry.weight += action.weight;
+          entry.value = interpolateValue(entry.value, value, action.weight / entry.weight, binding.quaternion);
+        }
+      }
+    }
+
+    for (const [binding, { value, weight }] of blended) {
+      binding.write(weight < 1 ? interpolateValue(binding.rest, value, weight, binding.quaternion) : value);
+    }
+  }
+
+  private bind(target: string, property: TrackProperty): PropertyBinding {
+    const key = bindingKey(target, property);
+    const existing = this.bindings.get(key);
+    if (existing) return existing;
+
+    let binding: PropertyBinding;
+    if (target === CAMERA_TARGET) {
+      const camera = this.scene.camera;
+      if (property === "position") {
+        binding = {
+          quaternion: false,
+          rest: vec3ToArray(camera.position),
+          write: (v) => (camera.position = new Vec3(v[0], v[1], v[2])),
+        };
+      } else if (property === "orientation") {
+        binding = {
+          quaternion: true,
+          rest: quatToArray(camera.orientation),
+          write: (v) => (camera.orientation = new Quat(v[0], v[1], v[2], v[3]).normalize()),
+        };
+      } else {
+        throw new Error(`Animation: the camera has no "${property}" property (use "position" or "orientation")`);
+      }
+    } else {
+      const object = this.scene.getAllObjects().find((o) => o.name === target);
+      if (!object) {
+        throw new Error(`Animation: no object named "${target}" in the scene`);
+      }
+      switch (property) {
+        case "position":
+          binding = {
+            quaternion: false,
+            rest: vec3ToArray(object.position),
+            write: (v) => (object.position = new Vec3(v[0], v[1], v[2])),
+          };
+          break;
+        case "scale":
+          binding = {
+            quaternion: false,
+            rest: vec3ToArray(object.scale),
+            write: (v) => (object.scale = new Vec3(v[0], v[1], v[2])),
+          };
+          break;
+        case "rotation":
+          binding = {
+            quaternion: false,
+            rest: [object.rotation.x, object.rotation.y, object.rotation.z],
+            write: (v) => (object.rotation = { x: v[0], y: v[1], z: v[2] }),
+          };
+          break;
+        case "orientation":
+          binding = {
+            quaternion: true,
+            rest: quatToArray(object.getOrientation()),
+            write: (v) => object.setOrientation(new Quat(v[0], v[1], v[2], v[3])),
+          };
+          break;
+      }
+    }
+    this.bindings.set(key, binding);
+    return binding;
+  }
+}
+
+function bindingKey(target: string, property: TrackProperty): string {
+  return `${target}.${property}`;
+}
+
+function vec3ToArray(v: Vec3): number[] {
+  return [v.x, v.y, v.z];
+}
+
+function quatToArray(q: Quat): number[] {
+  return [q.x, q.y, q.z, q.w];
+}
@@ -2,13 +2,18 @@ import { Vec3 } from "../math/vec3";
 import { Mat4 } from "../math/mat4";
 import { Quat } from "../math/quat";
 
+/** Projection type of a camera. */
+export type ProjectionMode = "perspective" | "orthographic";
+
 /**
- * Simple perspective camera.
+ * Simple camera with perspective or orthographic (parallel) projection.
  *
  * - position: world-space position of the camera
  * - orientation: rotation from camera space to world space (default: identity)
- * - fovYRad: vertical field of view in radians
+ * - fovYRad: vertical field of view in radians (perspective)
  * - near / far: clipping planes
+ * - projection: "perspective" (default) or "orthographic"; can be switched at runtime
+ * - orthoHeight: vertical size of the view volume in world units (orthographic)
  *
  * For now we keep the camera fixed and just reuse its view/projection
  * matrices each frame, but the API supports future movement/rotation.
@@ -19,6 +24,8 @@ export class Camera {
   fovYRad: number;
   near: number;
   far: number;
+  projection: ProjectionMode = "perspective";
+  orthoHeight = 10;
 
   constructor(
     position: Vec3,
@@ -49,10 +56,22 @@ export class Camera {
     return rotInv.multiply(trans);
   }
 
+  /**
+   * True when the camera uses a parallel (orthographic) projection.
+   */
+  isOrthographic(): boolean {
+    return this.projection === "orthographic";
+  }
+
   /**
    * Projection matrix (camera space -> clip space).
    */
   getProjectionMatrix(aspect: number): Mat4 {
+    if (this.isOrthographic()) {
+      const halfHeight = this.orthoHeight / 2;
+      const halfWidth = halfHeight * aspect;
+      return Mat4.orthographic(-halfWidth, halfWidth, -halfHeight, halfHeight, this.near, this.far);
+    }
     return Mat4.perspective(this.fovYRad, aspect, this.near, this.far);
   }
 }
@@ -0,0 +1,21 @@
+import { Camera } from "./Camera";
+
+/**
+ * A camera controller turns user input into camera movement.
+ *
+ * Controllers listen for DOM events between `attach` and `detach`, accumulate
+ * the input, and apply it to the camera once per frame in `update`. Each
+ * controller keeps its own state (angles, target, ...), so controllers can be
+ * swapped at runtime: call `syncFromCamera` on the new one to continue from
+ * the current view.
+ */
+export interface CameraController {
+  /** Start listening for input on the element (keyboard input is read from the window). */
+  attach(element: HTMLElement): void;
+  /** Stop listening and forget any pressed keys or active drags. */
+  detach(): void;
+  /** Take over the camera's current position and orientation as the controller state. */
+  syncFromCamera(camera: Camera): void;
+  /** Apply the input gathered since the last call. `deltaTime` is in seconds. */
+  update(camera: Camera, deltaTime: number): void;
+}
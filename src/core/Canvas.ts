@@ -1,9 +1,11 @@
+import type { RenderTarget } from "./RenderTarget";
+
 /**
  * Wrapper class for HTML5 Canvas that provides a clean API
  * for common drawing operations while still allowing access
  * to the raw canvas and context objects when needed.
  */
-export class Canvas {
+export class Canvas implements RenderTarget {
   private readonly canvas: HTMLCanvasElement;
   private readonly ctx: CanvasRenderingContext2D;
 
@@ -100,4 +102,31 @@ export class Canvas {
 
     this.ctx.stroke();
   }
+
+  /**
+   * Fill a closed polygon with a solid color.
+   * Takes an array of points: [[x1, y1], [x2, y2], ...]
+   */
+  fillPolygon(points: Array<[number, number]>, color: string = "#ffffff"): void {
+    if (points.length < 3) return;
+
+    this.ctx.fillStyle = color;
+    this.ctx.beginPath();
+    this.ctx.moveTo(points[0][0], points[0][1]);
+    for (let i = 1; i < points.length; i++) {
+      this.ctx.lineTo(points[i][0], points[i][1]);
+    }
+    this.ctx.closePath();
+    this.ctx.fill();
+  }
+
+  /**
+   * Copy an RGBA pixel buffer (e.g. from Rasterizer) onto the canvas.
+   * The buffer must match the canvas size (width * height * 4 bytes).
+   */
+  putPixels(pixels: Uint8ClampedArray): void {
+    const image = this.ctx.createImageData(this.canvas.width, this.canvas.height);
+    image.data.set(pixels);
+    this.ctx.putImageData(image, 0, 0);
+  }
 }
@@ -0,0 +1,146 @@
+import type { InputSource } from "./ActionMap";
+
+export interface DomInputSourceOptions {
+  /**
+   * When true, clicking the element requests pointer lock and mouse movement
+   * only counts while the pointer is locked (mouse-look). Escape releases it.
+   * When false, mouse movement counts while any mouse button is held. Default false.
+   */
+  pointerLock?: boolean;
+}
+
+/** Pixels per wheel line (deltaMode 1: Firefox, line-mode mice). */
+const WHEEL_LINE_HEIGHT = 16;
+
+/**
+ * Vertical wheel delta in pixels, whatever unit the browser reported it in
+ * (deltaMode 0: pixels, 1: lines, 2: pages of `pageHeight` pixels), so wheel
+ * speed does not depend on the browser or mouse.
+ */
+export function wheelDeltaPixels(e: Pick<WheelEvent, "deltaY" | "deltaMode">, pageHeight: number): number {
+  switch (e.deltaMode) {
+    case 1:
+      return e.deltaY * WHEEL_LINE_HEIGHT;
+    case 2:
+      return e.deltaY * pageHeight;
+    default:
+      return e.deltaY;
+  }
+}
+
+/**
+ * Input source reading the keyboard and mouse from DOM events and gamepads
+ * from the Gamepad API (polled each frame).
+ */
+export class DomInputSource implements InputSource {
+  readonly pointerLock: boolean;
+
+  private element: HTMLElement | null = null;
+  private readonly keys = new Set<string>();
+  private readonly mouseButtons = new Set<number>();
+  private pendingMouse = { x: 0, y: 0 };
+  private pendingWheel = 0;
+  private mouseDelta = { x: 0, y: 0 };
+  private wheelDelta = 0;
+  private gamepads: ReadonlyArray<Gamepad | null> = [];
+
+  private readonly onKeyDown = (e: KeyboardEvent) => {
+    this.keys.add(e.code);
+  };
+  private readonly onKeyUp = (e: KeyboardEvent) => {
+    this.keys.delete(e.code);
+  };
+  private readonly onBlur = () => {
+    this.keys.clear();
+    this.mouseButtons.clear();
+  };
+  private readonly onMouseDown = (e: MouseEvent) => {
+    this.mouseButtons.add(e.button);
+    if (this.pointerLock && this.element && document.pointerLockElement !== this.element) {
+      this.element.requestPointerLock();
+    }
+  };
+  private readonly onMouseUp = (e: MouseEvent) => {
+    this.mouseButtons.delete(e.button);
+  };
+  private readonly onMouseMove = (e: MouseEvent) => {
+    const counts = this.pointerLock
+      ? document.pointerLockElement === this.element
+      : this.mouseButtons.size > 0;
+    if (!counts) return;
+    this.pendingMouse.x += e.movementX;
+    this.pendingMouse.y += e.movementY;
+  };
+  private readonly onWheel = (e: WheelEvent) => {
+    this.pendingWheel += wheelDeltaPixels(e, this.element?.clientHeight || window.innerHeight);
+  };
+
+  constructor(options?: DomInputSourceOptions) {
+    this.pointerLock = options?.pointerLock ?? false;
+  }
+
+  /** Whether the pointer is currently locked to the attached element. */
+  isPointerLocked(): boolean {
+    return this.element !== null && document.pointerLockElement === this.element;
+  }
+
+  attach(element: HTMLElement): void {
+    this.detach();
+    this.element = element;
+    window.addEventListener("keydown", this.onKeyDown);
+    window.addEventListener("keyup", this.onKeyUp);
+    window.addEventListener("blur", this.onBlur);
+    element.addEventListener("mousedown", this.onMouseDown);
+    window.addEventListener("mouseup", this.onMouseUp);
+    window.addEventListener("mousemove", this.onMouseMove);
+    element.addEventListener("wheel", this.onWheel, { passive: true });
+  }
+
+  detach(): void {
+    const element = this.element;
+    if (!element) return;
+    window.removeEventListener("keydown", this.onKeyDown);
+    window.removeEventListener("keyup", this.onKeyUp);
+    window.removeEventListener("blur", this.onBlur);
+    element.removeEventListener("mousedown", this.onMouseDown);
+    window.removeEventListener("mouseup", this.onMouseUp);
+    window.removeEventListener("mousemove", this.onMouseMove);
+    element.removeEventListener("wheel", this.onWheel);
+    if (document.pointerLockElement === element) document.exitPointerLock();
+    this.element = null;
+    this.keys.clear();
+    this.mouseButtons.clear();
+  }
+
+  poll(): void {
+    this.mouseDelta = this.pendingMouse;
+    this.wheelDelta = this.pendingWheel;
+    this.pendingMouse = { x: 0, y: 0 };
+    this.pendingWheel = 0;
+    this.gamepads = typeof navigator.getGamepads === "function" ? navigator.getGamepads() : [];
+  }
+
+  isKeyDown(code: string): boolean {
+    return this.keys.has(code);
+  }
+
+  isMouseButtonDown(button: number): boolean {
+    return this.mouseButtons.has(button);
+  }
+
+  getMouseDelta(): { x: number; y: number } {
+    return this.mouseDelta;
+  }
+
+  getWheelDelta(): number {
+    return this.wheelDelta;
+  }
+
+  getGamepadAxis(gamepad: number, axis: number): number {
+    return this.gamepads[gamepad]?.axes[axis] ?? 0;
+  }
+
+  getGamepadButton(gamepad: number, button: number): number {
+    return this.gamepads[gamepad]?.buttons[button]?.value ?? 0;
+  }
+}
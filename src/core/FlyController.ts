@@ -0,0 +1,102 @@
+import { Vec3 } from "../math/vec3";
+import { clamp, degToRad } from "../math/utils";
+import { Camera } from "./Camera";
+import { Quat } from "../math/quat";
+import type { CameraController } from "./CameraController";
+import { ActionMap, DEFAULT_FLY_BINDINGS } from "./ActionMap";
+import { DomInputSource } from "./DomInputSource";
+
+export interface FlyControllerOptions {
+  /** Movement speed in units per second. Default 4. */
+  moveSpeed?: number;
+  /** Look speed in radians per second. Default 60deg/s. */
+  rotateSpeed?: number;
+  /**
+   * Input actions to read (moveForward, strafe, lookYaw, lookPitch).
+   * Default: DEFAULT_FLY_BINDINGS on a DomInputSource.
+   */
+  actions?: ActionMap;
+}
+
+/** Pitch limit, to avoid flipping over the poles. */
+const MAX_PITCH = degToRad(89);
+
+/**
+ * Fly camera: looks around with yaw/pitch and moves in the look direction.
+ * Keeps its own yaw/pitch; the camera orientation is rebuilt from them each update.
+ *
+ * Input comes from named actions (see ActionMap), with values as fractions of
+ * full speed:
+ * - lookYaw / lookPitch: turn left / look up (default: arrow keys, mouse, right stick)
+ * - moveForward / strafe: move forward / right (default: WASD, left stick)
+ */
+export class FlyController implements CameraController {
+  /** Left/right angle in radians. */
+  yaw: number;
+  /** Up/down angle in radians, clamped to +-89deg. */
+  pitch: number;
+  moveSpeed: number;
+  rotateSpeed: number;
+  readonly actions: ActionMap;
+
+  constructor(yaw: number = 0, pitch: number = 0, options?: FlyControllerOptions) {
+    this.yaw = yaw;
+    this.pitch = pitch;
+    this.moveSpeed = options?.moveSpeed ?? 4;
+    this.rotateSpeed = options?.rotateSpeed ?? degToRad(60);
+    this.actions = options?.actions ?? new ActionMap(DEFAULT_FLY_BINDINGS, new DomInputSource());
+  }
+
+  attach(element: HTMLElement): void {
+    this.actions.source.attach?.(element);
+  }
+
+  detach(): void {
+    this.actions.source.detach?.();
+  }
+
+  syncFromCamera(camera: Camera): void {
+    const euler = camera.orientation.toEuler();
+    this.yaw = euler.yaw;
+    this.pitch = clamp(euler.pitch, -MAX_PITCH, MAX_PITCH);
+  }
+
+  /**
+   * Update camera based on current input and elapsed time.
+   *
+   * @param camera camera to update
+   * @param deltaTime seconds since last frame
+   */
+  update(camera: Camera, deltaTime: number): void {
+    const actions = this.actions;
+    actions.update();
+
+    // --- Look around (positive yaw turns left) ---
+    this.yaw += actions.get("lookYaw", deltaTime) * this.rotateSpeed;
+    this.pitch += actions.get("lookPitch", deltaTime) * this.rotateSpeed;
+
+    // Clamp pitch to avoid flipping
+    this.pitch = clamp(this.pitch, -MAX_PITCH, MAX_PITCH);
+
+    // Recompute camera orientation from yaw/pitch
+    camera.orientation = Quat.fromEuler(this.yaw, this.pitch, 0);
+
+    // Move along the look direction; strafe stays horizontal.
+    const forward = camera.orientation.rotateVec3(new Vec3(0, 0, -1));
+    const right = new Vec3(Math.cos(this.yaw), 0, -Math.sin(this.yaw));
+
+    let moveForward = actions.get("moveForward", deltaTime);
+    let strafe = actions.get("strafe", deltaTime);
+    // Diagonal input is no faster than straight input.
+    const amount = Math.hypot(moveForward, strafe);
+    if (amount > deltaTime && amount > 0) {
+      moveForward *= deltaTime / amount;
+      strafe *= deltaTime / amount;
+    }
+
+    if (moveForward !== 0 || strafe !== 0) {
+      const delta = forward.scale(moveForward).add(right.scale(strafe)).scale(this.moveSpeed);
+      camera.position = camera.position.add(delta);
+    }
+  }
+}
@@ -1,19 +1,41 @@
 import { Vec3 } from "../math/vec3";
+import { Aabb, aabbFromPoints } from "../math/aabb";
+import { BoundingSphere, computeBoundingSphere } from "../math/boundingSphere";
 import { MeshData, Polygon } from "../io/meshLoader";
 
+/**
+ * A unique edge of a mesh: an unordered vertex pair shared by one or more polygons.
+ */
+export interface MeshEdge {
+  /** Vertex indices of the endpoints, a < b. */
+  a: number;
+  b: number;
+  /** Indices into mesh.polygons of the polygons that have this edge, ascending. */
+  polygons: number[];
+}
+
 /**
  * Mesh holds immutable geometry: local-space vertices (3D positions),
- * polygons (each lists vertex indices; renderer draws 1-2, 2-3, ..., n-1), and bounding radius.
+ * polygons (each lists vertex indices; renderer draws 1-2, 2-3, ..., n-1),
+ * the unique edges they share, and precomputed local bounds: a tight bounding
+ * sphere with its own center and an AABB.
  */
 export class Mesh {
   readonly vertices: Vec3[];
   readonly polygons: Polygon[];
-  readonly boundingRadius: number;
+  /** Approximate minimal bounding sphere in local space (Ritter's algorithm). */
+  readonly boundingSphere: BoundingSphere;
+  /** Axis-aligned bounding box in local space. */
+  readonly localAabb: Aabb;
+  /** Each polygon edge once, with its adjacent polygons (e.g. 12 for a cube, not 24). */
+  readonly edges: MeshEdge[];
 
   constructor(vertices: Vec3[], polygons: Polygon[] = []) {
     this.vertices = vertices;
     this.polygons = polygons;
-    this.boundingRadius = Mesh.computeBoundingRadius(vertices);
+    this.boundingSphere = computeBoundingSphere(vertices);
+    this.localAabb = aabbFromPoints(vertices);
+    this.edges = Mesh.computeEdges(polygons);
   }
 
   /**
@@ -24,14 +46,35 @@ export class Mesh {
   }
 
   /**
-   * Bounding radius = max distance from origin to any vertex in local space.
+   * Build the edge table: every polygon edge (consecutive vertex indices, then last
+   * back to first; a two-index polygon is a single line) keyed by its unordered
+   * vertex pair, in order of first appearance. Zero-length edges (a repeated
+   * index) are skipped.
    */
-  static computeBoundingRadius(vertices: Vec3[]): number {
-    let maxSq = 0;
-    for (const v of vertices) {
-      const sq = v.lengthSq();
-      if (sq > maxSq) maxSq = sq;
-    }
-    return Math.sqrt(maxSq);
+  static computeEdges(polygons: Polygon[]): MeshEdge[] {
+    const edges: MeshEdge[] = [];
+    const byKey = new Map<string, MeshEdge>();
+    polygons.forEach((polygon, polygonIndex) => {
+      const indices = polygon.vertexIndices;
+      if (indices.length < 2) return;
+      const edgeCount = indices.length === 2 ? 1 : indices.length;
+      for (let i = 0; i < edgeCount; i++) {
+        const u = indices[i];
+        const v = indices[(i + 1) % indices.length];
+        if (u === v) continue;
+        const a = Math.min(u, v);
+        const b = Math.max(u, v);
+        const key = `${a},${b}`;
+        const edge = byKey.get(key);
+        if (!edge) {
+          const created = { a, b, polygons: [polygonIndex] };
+          byKey.set(key, created);
+          edges.push(created);
+        } else if (edge.polygons[edge.polygons.length - 1] !== polygonIndex) {
+          edge.polygons.push(polygonIndex);
+        }
+      }
+    });
+    return edges;
   }
 }
@@ -1,7 +1,16 @@
 import { Vec3 } from "../math/vec3";
 import { Mat4 } from "../math/mat4";
+import { Quat } from "../math/quat";
+import { clamp } from "../math/utils";
+import { Aabb, aabbTransform } from "../math/aabb";
+import { BoundingSphere } from "../math/boundingSphere";
 import { Mesh } from "./Mesh";
 
+export type { BoundingSphere } from "../math/boundingSphere";
+
+/** |sin(y)| above which setOrientation treats the rotation as gimbal-locked. */
+const GIMBAL_POLE_THRESHOLD = 1 - 1e-6;
+
 /**
  * Euler rotation in radians (x = pitch, y = yaw, z = roll).
  */
@@ -12,32 +21,223 @@ export interface Euler {
 }
 
 /**
- * Object3D is a mesh instance in the scene with a transform:
- * position, rotation (Euler), and scale.
+ * Object3D is a node in the scene graph with a transform:
+ * position, rotation (Euler), and scale relative to its parent.
+ * It may carry a mesh instance, or be an empty group node (mesh = null)
+ * used only to transform its children (e.g. a robot arm joint).
+ *
+ * World matrices are composed through the parent chain and cached. Because
+ * position/rotation/scale are plain mutable fields, the cache is validated by
+ * comparing the current transform values with the ones it was built from,
+ * and by the parent's world-matrix version.
  */
 export class Object3D {
-  readonly mesh: Mesh;
+  readonly mesh: Mesh | null;
   position: Vec3;
   rotation: Euler;
   scale: Vec3;
+  /** Optional name (e.g. for scene files and debugging). */
+  name: string;
+
+  private _parent: Object3D | null = null;
+  private readonly _children: Object3D[] = [];
+
+  private _localMatrix: Mat4 | null = null;
+  /** Transform values (position, rotation, scale) the local matrix was built from. */
+  private readonly _localKey = new Float64Array(9);
+  private _localVersion = 0;
 
-  constructor(mesh: Mesh, position?: Vec3, rotation?: Euler, scale?: Vec3) {
+  private _worldMatrix: Mat4 | null = null;
+  /** Incremented whenever the world matrix is rebuilt; children compare against it. */
+  private _worldVersion = 0;
+  private _worldLocalVersion = -1;
+  private _worldParentVersion = -1;
+
+  constructor(mesh: Mesh | null, position?: Vec3, rotation?: Euler, scale?: Vec3, name: string = "") {
     this.mesh = mesh;
     this.position = position ?? Vec3.zero();
     this.rotation = rotation ?? { x: 0, y: 0, z: 0 };
     this.scale = scale ?? new Vec3(1, 1, 1);
+    this.name = name;
+  }
+
+  get parent(): Object3D | null {
+    return this._parent;
+  }
+
+  get children(): readonly Object3D[] {
+    return this._children;
+  }
+
+  /**
+   * Attach a child. It is detached from its previous parent first.
+   * Throws if the child is this object or one of its ancestors (cycle).
+   */
+  add(child: Object3D): void {
+    for (let node: Object3D | null = this; node; node = node._parent) {
+      if (node === child) {
+        throw new Error("Cannot add an object as a child of itself or of its descendants");
+      }
+    }
+    child._parent?.remove(child);
+    child._parent = this;
+    child._worldMatrix = null;
+    this._children.push(child);
   }
 
   /**
-   * Build model matrix: T * R * S (scale in local space, then rotate, then translate).
+   * Detach a child. Returns false if it is not a child of this object.
+   */
+  remove(child: Object3D): boolean {
+    const i = this._children.indexOf(child);
+    if (i === -1) return false;
+    this._children.splice(i, 1);
+    child._parent = null;
+    child._worldMatrix = null;
+    return true;
+  }
+
+  /**
+   * Visit this object and all its descendants (depth-first, parents before children).
+   */
+  traverse(callback: (object: Object3D) => void): void {
+    callback(this);
+    for (const child of this._children) {
+      child.traverse(callback);
+    }
+  }
+
+  /**
+   * Force the cached matrices to be rebuilt on next access.
+   * Only needed if transform fields are replaced in ways the value check cannot see
+   * (it compares numbers, so normal assignments and in-place edits are detected).
+   */
+  markDirty(): void {
+    this._localMatrix = null;
+    this._worldMatrix = null;
+  }
+
+  /**
+   * Build local model matrix: T * R * S (scale in local space, then rotate, then translate).
+   * Relative to the parent; equals the world matrix for root objects.
    */
   getModelMatrix(): Mat4 {
-    const T = Mat4.translation(this.position.x, this.position.y, this.position.z);
-    const Rx = Mat4.rotationX(this.rotation.x);
-    const Ry = Mat4.rotationY(this.rotation.y);
-    const Rz = Mat4.rotationZ(this.rotation.z);
+    const key = this._localKey;
+    const p = this.position, r = this.rotation, s = this.scale;
+    if (
+      this._localMatrix &&
+      key[0] === p.x && key[1] === p.y && key[2] === p.z &&
+      key[3] === r.x && key[4] === r.y && key[5] === r.z &&
+      key[6] === s.x && key[7] === s.y && key[8] === s.z
+    ) {
+      return this._localMatrix;
+    }
+
+    const T = Mat4.translation(p.x, p.y, p.z);
+    const Rx = Mat4.rotationX(r.x);
+    const Ry = Mat4.rotationY(r.y);
+    const Rz = Mat4.rotationZ(r.z);
     const R = Rx.multiply(Ry).multiply(Rz);
-    const S = Mat4.scaling(this.scale.x, this.scale.y, this.scale.z);
-    return T.multiply(R).multiply(S);
+    const S = Mat4.scaling(s.x, s.y, s.z);
+    this._localMatrix = T.multiply(R).multiply(S);
+    key.set([p.x, p.y, p.z, r.x, r.y, r.z, s.x, s.y, s.z]);
+    this._localVersion++;
+    return this._localMatrix;
+  }
+
+  /**
+   * Local rotation as a quaternion (the Euler angles compose as Rx * Ry * Rz).
+   */
+  getOrientation(): Quat {
+    const r = this.rotation;
+    return Quat.fromAxisAngle(new Vec3(1, 0, 0), r.x)
+      .multiply(Quat.fromAxisAngle(new Vec3(0, 1, 0), r.y))
+      .multiply(Quat.fromAxisAngle(new Vec3(0, 0, 1), r.z));
+  }
+
+  /**
+   * Set the local rotation from a quaternion (converted to Euler angles, y in
+   * [-PI/2, PI/2]). At y = +-90deg x and z rotate about the same axis, so z is
+   * set to 0 and x carries the rotation.
+   */
+  setOrientation(q: Quat): void {
+    const { x, y, z, w } = q.normalize();
+    // Rotation matrix elements (row, column) of R = Rx * Ry * Rz
+    const m02 = 2 * (x * z + w * y);
+    const sinY = clamp(m02, -1, 1);
+    const ry = Math.asin(sinY);
+
+    if (Math.abs(sinY) < GIMBAL_POLE_THRESHOLD) {
+      const m12 = 2 * (y * z - w * x);
+      const m22 = 1 - 2 * (x * x + y * y);
+      const m01 = 2 * (x * y - w * z);
+      const m00 = 1 - 2 * (y * y + z * z);
+      this.rotation = { x: Math.atan2(-m12, m22), y: ry, z: Math.atan2(-m01, m00) };
+    } else {
+      const m21 = 2 * (y * z + w * x);
+      const m11 = 1 - 2 * (x * x + z * z);
+      this.rotation = { x: Math.atan2(m21, m11), y: ry, z: 0 };
+    }
+  }
+
+  /**
+   * World matrix: parent world matrix * local model matrix (cached).
+   */
+  getWorldMatrix(): Mat4 {
+    const local = this.getModelMatrix();
+    const parentWorld = this._parent ? this._parent.getWorldMatrix() : null;
+    const parentVersion = this._parent ? this._parent._worldVersion : 0;
+
+    if (
+      !this._worldMatrix ||
+      this._worldLocalVersion !== this._localVersion ||
+      this._worldParentVersion !== parentVersion
+    ) {
+      this._worldMatrix = parentWorld ? parentWorld.multiply(local) : local;
+      this._worldLocalVersion = this._localVersion;
+      this._worldParentVersion = parentVersion;
+      this._worldVersion++;
+    }
+    return this._worldMatrix;
+  }
+
+  /**
+   * World-space position of this object's origin.
+   */
+  getWorldPosition(): Vec3 {
+    const m = this.getWorldMatrix().m;
+    return new Vec3(m[12], m[13], m[14]);
+  }
+
+  /**
+   * World-space bounding sphere of the mesh (null for group nodes without a mesh).
+   * The mesh's local sphere center is transformed by the world matrix and the
+   * radius is scaled by the largest axis scale, so it stays conservative under
+   * non-uniform scale.
+   */
+  getWorldBoundingSphere(): BoundingSphere | null {
+    if (!this.mesh) return null;
+    const world = this.getWorldMatrix();
+    const m = world.m;
+    const local = this.mesh.boundingSphere;
+    const center = world.transformPoint(local.center);
+    const maxScale = Math.max(
+      Math.hypot(m[0], m[1], m[2]),
+      Math.hypot(m[4], m[5], m[6]),
+      Math.hypot(m[8], m[9], m[10]),
+    );
+    return {
+      center,
+      radius: local.radius * maxScale,
+    };
+  }
+
+  /**
+   * World-space axis-aligned box around the mesh's local AABB
+   * (null for group nodes without a mesh).
+   */
+  getWorldAabb(): Aabb | null {
+    if (!this.mesh) return null;
+    return aabbTransform(this.mesh.localAabb, this.getWorldMatrix());
   }
 }
@@ -0,0 +1,306 @@
+import { Mat4 } from "../math/mat4";
+import { Aabb, aabbContains, aabbExpand, aabbSurfaceArea, aabbUnion } from "../math/aabb";
+import { Frustum } from "../math/frustum";
+import { Object3D } from "./Object3D";
+import { Scene } from "./Scene";
+
+/** Counters from one culling pass, to see how much work the frustum test did. */
+export interface CullingStats {
+  /** Internal hierarchy nodes tested against the frustum. */
+  nodesTested: number;
+  /** Internal nodes found fully outside (their whole subtree was skipped). */
+  nodesCulled: number;
+  /** Objects whose own bounds were tested against the frustum. */
+  objectsTested: number;
+  /** Objects not drawn because they are outside the frustum. */
+  objectsCulled: number;
+  /** Objects that passed culling. */
+  objectsVisible: number;
+}
+
+/** Objects that passed frustum culling, plus the counters for the pass. */
+export interface CullingResult {
+  objects: Object3D[];
+  stats: CullingStats;
+}
+
+interface BvhNode {
+  /** Leaves: tight bounds grown by the margin; internal nodes: union of both children. */
+  box: Aabb;
+  parent: BvhNode | null;
+  left: BvhNode | null;
+  right: BvhNode | null;
+  /** Set on leaves only. */
+  object: Object3D | null;
+  /** Leaves: current world bounds of the object. */
+  bounds: Aabb | null;
+  /** Leaves: world matrix the bounds were computed from (cached instance from Object3D). */
+  worldMatrix: Mat4 | null;
+}
+
+/**
+ * Object-level frustum culling: test the object's world-space bounding sphere,
+ * then (if it passes) its world-space AABB, against the world-space frustum planes.
+ * An object is culled when either volume is fully outside.
+ * Objects without a mesh are never drawn. Used for every object by the linear
+ * path and for objects under partially visible nodes by ObjectBvh.query, so both
+ * paths agree.
+ */
+export function isObjectInFrustum(object: Object3D, frustum: Frustum): boolean {
+  const sphere = object.getWorldBoundingSphere();
+  if (!sphere || !frustum.intersectsSphere(sphere.center, sphere.radius)) return false;
+  const box = object.getWorldAabb()!;
+  return frustum.intersectsAabb(box.min, box.max);
+}
+
+/**
+ * Dynamic bounding volume hierarchy over the world bounds of scene objects,
+ * used to frustum-cull large scenes without testing every object.
+ *
+ * Leaves store the object's bounds grown by `margin`, so small movements do not
+ * change the tree; an object is only re-inserted once it leaves its grown box.
+ * New leaves go next to the sibling that increases the total surface area least.
+ *
+ * Objects without a mesh (group nodes) have no bounds and are not stored.
+ * Call `sync(scene)` once per frame (the renderer does this when the index is
+ * passed in its options), then `query(frustum)`.
+ */
+export class ObjectBvh {
+  /** Extra space around each leaf's bounds, in world units. */
+  readonly margin: number;
+
+  private root: BvhNode | null = null;
+  private readonly leaves = new Map<Object3D, BvhNode>();
+
+  constructor(margin: number = 0.5) {
+    this.margin = margin;
+  }
+
+  /** Number of objects in the hierarchy. */
+  get size(): number {
+    return this.leaves.size;
+  }
+
+  has(object: Object3D): boolean {
+    return this.leaves.has(object);
+  }
+
+  /**
+   * Add an object (no-op for objects without a mesh or already present).
+   */
+  insert(object: Object3D): void {
+    if (!object.mesh || this.leaves.has(object)) return;
+    const bounds = objectWorldBounds(object);
+    if (!bounds) return;
+    const leaf: BvhNode = {
+      box: aabbExpand(bounds, this.margin),
+      parent: null,
+      left: null,
+      right: null,
+      object,
+      bounds,
+      worldMatrix: object.getWorldMatrix(),
+    };
+    this.leaves.set(object, leaf);
+    this.insertLeaf(leaf);
+  }
+
+  /**
+   * Remove an object. Returns false if it was not in the hierarchy.
+   */
+  remove(object: Object3D): boolean {
+    const leaf = this.leaves.get(object);
+    if (!leaf) return false;
+    this.removeLeaf(leaf);
+    this.leaves.delete(object);
+    return true;
+  }
+
+  /**
+   * Refresh an object's bounds after it moved; inserts it if not yet present.
+   * Returns true when the tree changed (the object left its grown box).
+   */
+  update(object: Object3D): boolean {
+    const leaf = this.leaves.get(object);
+    if (!leaf) {
+      this.insert(object);
+      return this.leaves.has(object);
+    }
+
+    const world = object.getWorldMatrix();
+    if (world === leaf.worldMatrix) return false;
+    leaf.worldMatrix = world;
+
+    const bounds = objectWorldBounds(object);
+    if (!bounds) {
+      this.remove(object);
+      return true;
+    }
+    leaf.bounds = bounds;
+    if (aabbContains(leaf.box, bounds)) return false;
+
+    this.removeLeaf(leaf);
+    leaf.box = aabbExpand(bounds, this.margin);
+    this.insertLeaf(leaf);
+    return true;
+  }
+
+  /**
+   * Bring the hierarchy in line with the scene: insert new objects,
+   * update moved ones and remove those no longer in the scene graph.
+   */
+  sync(scene: Scene): void {
+    const seen = new Set<Object3D>();
+    scene.traverse((object) => {
+      if (!object.mesh) return;
+      seen.add(object);
+      this.update(object);
+    });
+    for (const object of Array.from(this.leaves.keys())) {
+      if (!seen.has(object)) this.remove(object);
+    }
+  }
+
+  clear(): void {
+    this.root = null;
+    this.leaves.clear();
+  }
+
+  /**
+   * Collect the objects whose bounds intersect the frustum.
+   * Subtrees fully outside are skipped; subtrees fully inside are collected without
+   * testing their objects (they would pass). Objects under partially visible nodes
+   * are tested with isObjectInFrustum, like the linear path.
+   */
+  query(frustum: Frustum): CullingResult {
+    const stats: CullingStats = {
+      nodesTested: 0,
+      nodesCulled: 0,
+      objectsTested: 0,
+      objectsCulled: 0,
+      objectsVisible: 0,
+    };
+    const objects: Object3D[] = [];
+    const stack: BvhNode[] = this.root ? [this.root] : [];
+
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (node.object) {
+        stats.objectsTested++;
+        if (isObjectInFrustum(node.object, frustum)) objects.push(node.object);
+        continue;
+      }
+
+      stats.nodesTested++;
+      const result = frustum.testAabb(node.box.min, node.box.max);
+      if (result === "outside") {
+        stats.nodesCulled++;
+      } else if (result === "inside") {
+        collectObjects(node, objects);
+      } else {
+        stack.push(node.left!, node.right!);
+      }
+    }
+
+    stats.objectsVisible = objects.length;
+    stats.objectsCulled = this.leaves.size - objects.length;
+    return { objects, stats };
+  }
+
+  private insertLeaf(leaf: BvhNode): void {
+    if (!this.root) {
+      this.root = leaf;
+      leaf.parent = null;
+      return;
+    }
+
+    // Walk down towards the cheapest sibling (surface area heuristic).
+    let sibling = this.root;
+    while (!sibling.object) {
+      const area = aabbSurfaceArea(sibling.box);
+      const combinedArea = aabbSurfaceArea(aabbUnion(sibling.box, leaf.box));
+      // Cost of making a new parent for this node and the leaf
+      const cost = 2 * combinedArea;
+      // Minimum cost of pushing the leaf further down
+      const inheritance = 2 * (combinedArea - area);
+      const childCost = (child: BvhNode): number => {
+        const grown = aabbSurfaceArea(aabbUnion(child.box, leaf.box));
+        return (child.object ? grown : grown - aabbSurfaceArea(child.box)) + inheritance;
+      };
+      const left = sibling.left!;
+      const right = sibling.right!;
+      const costLeft = childCost(left);
+      const costRight = childCost(right);
+      if (cost < costLeft && cost < costRight) break;
+      sibling = costLeft < costRight ? left : right;
+    }
+
+    const oldParent = sibling.parent;
+    const parent: BvhNode = {
+      box: aabbUnion(sibling.box, leaf.box),
+      parent: oldParent,
+      left: sibling,
+      right: leaf,
+      object: null,
+      bounds: null,
+      worldMatrix: null,
+    };
+    sibling.parent = parent;
+    leaf.parent = parent;
+
+    if (!oldParent) {
+      this.root = parent;
+    } else if (oldParent.left === sibling) {
+      oldParent.left = parent;
+    } else {
+      oldParent.right = parent;
+    }
+    refit(oldParent);
+  }
+
+  private removeLeaf(leaf: BvhNode): void {
+    const parent = leaf.parent;
+    leaf.parent = null;
+    if (!parent) {
+      this.root = null;
+      return;
+    }
+
+    const sibling = parent.left === leaf ? parent.right! : parent.left!;
+    const grandParent = parent.parent;
+    sibling.parent = grandParent;
+    if (!grandParent) {
+      this.root = sibling;
+      return;
+    }
+    if (grandParent.left === parent) {
+      grandParent.left = sibling;
+    } else {
+      grandParent.right = sibling;
+    }
+    refit(grandParent);
+  }
+}
+
+/**
+ * World-space AABB of an object's mesh (null without a mesh).
+ */
+function objectWorldBounds(object: Object3D): Aabb | null {
+  return object.getWorldAabb();
+}
+
+/** Recompute internal node boxes from `node` up to the root. */
+function refit(node: BvhNode | null): void {
+  for (let n = node; n; n = n.parent) {
+    n.box = aabbUnion(n.left!.box, n.right!.box);
+  }
+}
+
+function collectObjects(node: BvhNode, out: Object3D[]): void {
+  if (node.object) {
+    out.push(node.object);
+    return;
+  }
+  collectObjects(node.left!, out);
+  collectObjects(node.right!, out);
+}
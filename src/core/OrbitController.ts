@@ -0,0 +1,234 @@
+import { Vec3 } from "../math/vec3";
+import { Quat } from "../math/quat";
+import { clamp, degToRad } from "../math/utils";
+import { Camera } from "./Camera";
+import type { CameraController } from "./CameraController";
+import { wheelDeltaPixels } from "./DomInputSource";
+
+/**
+ * How dragging rotates the view:
+ * - "orbit": horizontal drag turns around the world up axis, vertical drag tilts
+ *   (pitch clamped, horizon stays level)
+ * - "arcball": the drag rolls a virtual trackball under the cursor, so the view
+ *   can rotate freely about any axis
+ */
+export type OrbitMode = "orbit" | "arcball";
+
+export interface OrbitControllerOptions {
+  /** Point to orbit around. Default origin. */
+  target?: Vec3;
+  /** Distance from the target. Default 10. */
+  distance?: number;
+  mode?: OrbitMode;
+  /** Orbit mode: radians per dragged pixel. Default 0.005. */
+  rotateSpeed?: number;
+  /** Zoom factor per wheel pixel (exponential). Default 0.001. */
+  zoomSpeed?: number;
+  /** Pan speed multiplier (1 = the target follows the cursor). Default 1. */
+  panSpeed?: number;
+  /** Distance limits for perspective cameras. Default 0.1 and 1000. */
+  minDistance?: number;
+  maxDistance?: number;
+  /** orthoHeight limits for orthographic cameras. Default 0.1 and 1000. */
+  minOrthoHeight?: number;
+  maxOrthoHeight?: number;
+}
+
+/** Pitch limit in orbit mode, to avoid flipping over the poles. */
+const MAX_PITCH = degToRad(89);
+
+/**
+ * Mouse camera controller that rotates around a target point.
+ *
+ * Controls:
+ * - Left drag: rotate (orbit or arcball, see `mode`)
+ * - Right drag or Shift + left drag: pan (moves the target in the view plane)
+ * - Wheel: zoom (changes the distance; changes orthoHeight for orthographic cameras).
+ *   Deltas are normalized to pixels, so line- and page-mode wheels zoom at the same rate.
+ *
+ * The controller owns the target, distance and orientation; the camera
+ * position is derived from them each update.
+ */
+export class OrbitController implements CameraController {
+  target: Vec3;
+  distance: number;
+  mode: OrbitMode;
+  rotateSpeed: number;
+  zoomSpeed: number;
+  panSpeed: number;
+  minDistance: number;
+  maxDistance: number;
+  minOrthoHeight: number;
+  maxOrthoHeight: number;
+  /** Camera orientation (camera space to world space). */
+  orientation: Quat = Quat.identity();
+
+  private element: HTMLElement | null = null;
+  private drag: { pointerId: number; pan: boolean; x: number; y: number } | null = null;
+
+  // Input accumulated since the last update
+  private rotateX = 0;
+  private rotateY = 0;
+  private panX = 0;
+  private panY = 0;
+  /** Element height in pixels at the time of panning (for pixel → world scale). */
+  private panHeight = 1;
+  private zoom = 0;
+  /** Arcball rotation to apply in camera space (right-multiplied onto the orientation). */
+  private arcball = Quat.identity();
+
+  private readonly onPointerDown = (e: PointerEvent) => {
+    if (this.drag || (e.button !== 0 && e.button !== 2)) return;
+    this.drag = { pointerId: e.pointerId, pan: e.button === 2 || e.shiftKey, x: e.clientX, y: e.clientY };
+    this.element?.setPointerCapture(e.pointerId);
+  };
+
+  private readonly onPointerMove = (e: PointerEvent) => {
+    const drag = this.drag;
+    if (!drag || e.pointerId !== drag.pointerId || !this.element) return;
+    const dx = e.clientX - drag.x;
+    const dy = e.clientY - drag.y;
+
+    if (drag.pan) {
+      this.panX += dx;
+      this.panY += dy;
+      this.panHeight = this.element.clientHeight || 1;
+    } else if (this.mode === "arcball") {
+      const rect = this.element.getBoundingClientRect();
+      const from = arcballPoint(drag.x - rect.left, drag.y - rect.top, rect.width, rect.height);
+      const to = arcballPoint(e.clientX - rect.left, e.clientY - rect.top, rect.width, rect.height);
+      const axis = from.cross(to);
+      if (axis.lengthSq() > 0) {
+        const angle = Math.acos(clamp(from.dot(to), -1, 1));
+        // The scene follows the cursor, so the camera turns the opposite way.
+        this.arcball = this.arcball.multiply(Quat.fromAxisAngle(axis, -angle));
+      }
+    } else {
+      this.rotateX += dx;
+      this.rotateY += dy;
+    }
+
+    drag.x = e.clientX;
+    drag.y = e.clientY;
+  };
+
+  private readonly onPointerUp = (e: PointerEvent) => {
+    if (!this.drag || e.pointerId !== this.drag.pointerId) return;
+    this.element?.releasePointerCapture(e.pointerId);
+    this.drag = null;
+  };
+
+  private readonly onWheel = (e: WheelEvent) => {
+    e.preventDefault();
+    this.zoom += wheelDeltaPixels(e, this.element?.clientHeight || window.innerHeight);
+  };
+
+  private readonly onContextMenu = (e: Event) => {
+    e.preventDefault();
+  };
+
+  constructor(options?: OrbitControllerOptions) {
+    this.target = options?.target ?? Vec3.zero();
+    this.distance = options?.distance ?? 10;
+    this.mode = options?.mode ?? "orbit";
+    this.rotateSpeed = options?.rotateSpeed ?? 0.005;
+    this.zoomSpeed = options?.zoomSpeed ?? 0.001;
+    this.panSpeed = options?.panSpeed ?? 1;
+    this.minDistance = options?.minDistance ?? 0.1;
+    this.maxDistance = options?.maxDistance ?? 1000;
+    this.minOrthoHeight = options?.minOrthoHeight ?? 0.1;
+    this.maxOrthoHeight = options?.maxOrthoHeight ?? 1000;
+  }
+
+  attach(element: HTMLElement): void {
+    this.detach();
+    this.element = element;
+    element.addEventListener("pointerdown", this.onPointerDown);
+    element.addEventListener("pointermove", this.onPointerMove);
+    element.addEventListener("pointerup", this.onPointerUp);
+    element.addEventListener("pointercancel", this.onPointerUp);
+    element.addEventListener("wheel", this.onWheel, { passive: false });
+    element.addEventListener("contextmenu", this.onContextMenu);
+  }
+
+  detach(): void {
+    const element = this.element;
+    if (!element) return;
+    element.removeEventListener("pointerdown", this.onPointerDown);
+    element.removeEventListener("pointermove", this.onPointerMove);
+    element.removeEventListener("pointerup", this.onPointerUp);
+    element.removeEventListener("pointercancel", this.onPointerUp);
+    element.removeEventListener("wheel", this.onWheel);
+    element.removeEventListener("contextmenu", this.onContextMenu);
+    this.element = null;
+    this.drag = null;
+  }
+
+  /**
+   * Keep the current view: the target is placed `distance` in front of the camera.
+   */
+  syncFromCamera(camera: Camera): void {
+    this.orientation = camera.orientation.clone();
+    const forward = this.orientation.rotateVec3(new Vec3(0, 0, -1));
+    this.target = camera.position.add(forward.scale(this.distance));
+  }
+
+  update(camera: Camera, _deltaTime: number): void {
+    // Rotate
+    if (this.mode === "arcball") {
+      this.orientation = this.orientation.multiply(this.arcball).normalize();
+    } else if (this.rotateX !== 0 || this.rotateY !== 0) {
+      const euler = this.orientation.toEuler();
+      const yaw = euler.yaw - this.rotateX * this.rotateSpeed;
+      const pitch = clamp(euler.pitch - this.rotateY * this.rotateSpeed, -MAX_PITCH, MAX_PITCH);
+      this.orientation = Quat.fromEuler(yaw, pitch, 0);
+    }
+
+    // Zoom
+    if (this.zoom !== 0) {
+      const factor = Math.exp(this.zoom * this.zoomSpeed);
+      if (camera.isOrthographic()) {
+        camera.orthoHeight = clamp(camera.orthoHeight * factor, this.minOrthoHeight, this.maxOrthoHeight);
+      } else {
+        this.distance = clamp(this.distance * factor, this.minDistance, this.maxDistance);
+      }
+    }
+
+    // Pan: move the target so the point under the cursor follows it
+    if (this.panX !== 0 || this.panY !== 0) {
+      const viewHeight = camera.isOrthographic()
+        ? camera.orthoHeight
+        : 2 * this.distance * Math.tan(camera.fovYRad / 2);
+      const worldPerPixel = (viewHeight / this.panHeight) * this.panSpeed;
+      const right = this.orientation.rotateVec3(new Vec3(1, 0, 0));
+      const up = this.orientation.rotateVec3(new Vec3(0, 1, 0));
+      this.target = this.target
+        .sub(right.scale(this.panX * worldPerPixel))
+        .add(up.scale(this.panY * worldPerPixel));
+    }
+
+    this.rotateX = this.rotateY = 0;
+    this.panX = this.panY = 0;
+    this.zoom = 0;
+    this.arcball = Quat.identity();
+
+    camera.orientation = this.orientation.clone();
+    camera.position = this.target.add(this.orientation.rotateVec3(new Vec3(0, 0, this.distance)));
+  }
+}
+
+/**
+ * Map a point in an element (pixels, origin top-left) onto the unit arcball
+ * sphere (Shoemake). Points outside the ball are projected onto its rim.
+ */
+function arcballPoint(x: number, y: number, width: number, height: number): Vec3 {
+  const size = Math.min(width, height) || 1;
+  const px = (2 * x - width) / size;
+  const py = (height - 2 * y) / size;
+  const d = px * px + py * py;
+  if (d > 1) {
+    const len = Math.sqrt(d);
+    return new Vec3(px / len, py / len, 0);
+  }
+  return new Vec3(px, py, Math.sqrt(1 - d));
+}
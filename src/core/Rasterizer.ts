@@ -0,0 +1,286 @@
+import { parseColor, parseColorWithAlpha, RGB, RGBA } from "./color";
+import type { RenderTarget } from "./RenderTarget";
+
+/** Fallback when a color string cannot be parsed. */
+const DEFAULT_RGB: RGB = { r: 255, g: 255, b: 255 };
+
+/**
+ * A screen-space point with depth: x, y in pixels, z in [0, 1] (0 = near plane, 1 = far plane).
+ */
+export type RasterPoint = [number, number, number];
+
+/**
+ * Software rasterizer that draws into a plain RGBA framebuffer with a
+ * per-pixel depth buffer. It is the CPU counterpart of Canvas: no DOM is
+ * needed, so it also runs under Node.
+ *
+ * - Lines are anti-aliased (Xiaolin Wu) and depth-tested; they do not write depth.
+ * - Triangles are filled with depth interpolated across the triangle and write depth.
+ *   They can also be drawn into the depth buffer only, to hide lines behind them.
+ *
+ * Depth test passes when the incoming depth is <= the stored depth (+ lineDepthBias for lines).
+ */
+export class Rasterizer {
+  readonly width: number;
+  readonly height: number;
+  /** RGBA bytes, row-major from the top-left pixel (compatible with ImageData). */
+  readonly colorBuffer: Uint8ClampedArray;
+  /** One depth value per pixel in [0, 1]; cleared to 1 (far plane). */
+  readonly depthBuffer: Float32Array;
+  /** Depth tolerance for lines, so edges drawn on top of their own faces are not hidden. */
+  lineDepthBias = 1e-4;
+
+  constructor(width: number, height: number) {
+    if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
+      throw new Error(`Invalid rasterizer size ${width}x${height}`);
+    }
+    this.width = width;
+    this.height = height;
+    this.colorBuffer = new Uint8ClampedArray(width * height * 4);
+    this.depthBuffer = new Float32Array(width * height);
+  }
+
+  /**
+   * Get the width of the framebuffer.
+   */
+  getWidth(): number {
+    return this.width;
+  }
+
+  /**
+   * Get the height of the framebuffer.
+   */
+  getHeight(): number {
+    return this.height;
+  }
+
+  /**
+   * Clear the framebuffer to a solid color and reset depth to the far plane.
+   */
+  clear(color: string = "#000000"): void {
+    const rgb = parseColor(color) ?? DEFAULT_RGB;
+    const buf = this.colorBuffer;
+    for (let i = 0; i < buf.length; i += 4) {
+      buf[i] = rgb.r;
+      buf[i + 1] = rgb.g;
+      buf[i + 2] = rgb.b;
+      buf[i + 3] = 255;
+    }
+    this.depthBuffer.fill(1);
+  }
+
+  /**
+   * Read the RGBA color of a pixel (for tests and debugging).
+   */
+  getPixel(x: number, y: number): [number, number, number, number] {
+    const i = (y * this.width + x) * 4;
+    const buf = this.colorBuffer;
+    return [buf[i], buf[i + 1], buf[i + 2], buf[i + 3]];
+  }
+
+  /**
+   * Read the stored depth of a pixel.
+   */
+  getDepth(x: number, y: number): number {
+    return this.depthBuffer[y * this.width + x];
+  }
+
+  /**
+   * Blend a color into a pixel with the given coverage, if it passes the line depth test.
+   */
+  private plotLinePixel(x: number, y: number, z: number, rgb: RGBA, coverage: number): void {
+    if (x < 0 || y < 0 || x >= this.width || y >= this.height || coverage <= 0) return;
+    const p = y * this.width + x;
+    if (z > this.depthBuffer[p] + this.lineDepthBias) return;
+
+    const a = Math.min(1, coverage) * rgb.a;
+    const i = p * 4;
+    const buf = this.colorBuffer;
+    buf[i] = buf[i] + (rgb.r - buf[i]) * a;
+    buf[i + 1] = buf[i + 1] + (rgb.g - buf[i + 1]) * a;
+    buf[i + 2] = buf[i + 2] + (rgb.b - buf[i + 2]) * a;
+    buf[i + 3] = 255;
+  }
+
+  /**
+   * Draw a single-pixel-wide anti-aliased, depth-tested line (Xiaolin Wu).
+   */
+  private drawThinLine(a: RasterPoint, b: RasterPoint, rgb: RGBA): void {
+    let [x0, y0, z0] = a;
+    let [x1, y1, z1] = b;
+    // Pixel centers sit at integer + 0.5.
+    x0 -= 0.5; y0 -= 0.5; x1 -= 0.5; y1 -= 0.5;
+
+    const steep = Math.abs(y1 - y0) > Math.abs(x1 - x0);
+    if (steep) {
+      [x0, y0] = [y0, x0];
+      [x1, y1] = [y1, x1];
+    }
+    if (x0 > x1) {
+      [x0, x1] = [x1, x0];
+      [y0, y1] = [y1, y0];
+      [z0, z1] = [z1, z0];
+    }
+
+    const dx = x1 - x0;
+    const gradient = dx === 0 ? 1 : (y1 - y0) / dx;
+    const plot = (px: number, py: number, z: number, c: number) =>
+      steep ? this.plotLinePixel(py, px, z, rgb, c) : this.plotLinePixel(px, py, z, rgb, c);
+    const depthAt = (px: number) => (dx === 0 ? z0 : z0 + ((px - x0) / dx) * (z1 - z0));
+
+    const xStart = Math.round(x0);
+    const xEnd = Math.round(x1);
+    for (let px = xStart; px <= xEnd; px++) {
+      // Endpoint pixels are weighted by how much of them the line covers along its major axis.
+      const weight = Math.min(1, Math.min(x1, px + 0.5) - Math.max(x0, px - 0.5));
+      if (weight <= 0) continue;
+
+      const y = y0 + gradient * (px - x0);
+      const yFloor = Math.floor(y);
+      const frac = y - yFloor;
+      const z = depthAt(px);
+      plot(px, yFloor, z, (1 - frac) * weight);
+      plot(px, yFloor + 1, z, frac * weight);
+    }
+  }
+
+  /**
+   * Draw an anti-aliased, depth-tested line between two screen points with depth.
+   * Wider lines are drawn as parallel one-pixel lines. A color with alpha
+   * blends the line with that opacity.
+   */
+  drawLine(a: RasterPoint, b: RasterPoint, color: string = "#ffffff", lineWidth: number = 1): void {
+    const rgb = parseColorWithAlpha(color) ?? { ...DEFAULT_RGB, a: 1 };
+    const width = Math.max(1, Math.round(lineWidth));
+    if (width === 1) {
+      this.drawThinLine(a, b, rgb);
+      return;
+    }
+
+    const len = Math.hypot(b[0] - a[0], b[1] - a[1]);
+    if (len === 0) {
+      this.drawThinLine(a, b, rgb);
+      return;
+    }
+    const nx = -(b[1] - a[1]) / len;
+    const ny = (b[0] - a[0]) / len;
+    for (let i = 0; i < width; i++) {
+      const offset = i - (width - 1) / 2;
+      this.drawThinLine(
+        [a[0] + nx * offset, a[1] + ny * offset, a[2]],
+        [b[0] + nx * offset, b[1] + ny * offset, b[2]],
+        rgb,
+      );
+    }
+  }
+
+  /**
+   * Draw multiple depth-tested lines in one color.
+   */
+  drawLines(
+    segments: Array<[RasterPoint, RasterPoint]>,
+    color: string = "#ffffff",
+    lineWidth: number = 1,
+  ): void {
+    for (const [a, b] of segments) {
+      this.drawLine(a, b, color, lineWidth);
+    }
+  }
+
+  /**
+   * Fill a triangle with depth interpolated from its vertices.
+   * Pass color = null to write depth only (e.g. to hide lines behind surfaces).
+   */
+  fillTriangle(a: RasterPoint, b: RasterPoint, c: RasterPoint, color: string | null): void {
+    const rgb = color === null ? null : parseColor(color) ?? DEFAULT_RGB;
+
+    const area = (b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]);
+    if (area === 0) return;
+
+    const minX = Math.max(0, Math.floor(Math.min(a[0], b[0], c[0])));
+    const maxX = Math.min(this.width - 1, Math.ceil(Math.max(a[0], b[0], c[0])));
+    const minY = Math.max(0, Math.floor(Math.min(a[1], b[1], c[1])));
+    const maxY = Math.min(this.height - 1, Math.ceil(Math.max(a[1], b[1], c[1])));
+
+    const invArea = 1 / area;
+    const buf = this.colorBuffer;
+    const depth = this.depthBuffer;
+
+    for (let y = minY; y <= maxY; y++) {
+      const py = y + 0.5;
+      for (let x = minX; x <= maxX; x++) {
+        const px = x + 0.5;
+        // Barycentric weights via edge functions (sign-normalized by the area).
+        const w0 = ((b[0] - px) * (c[1] - py) - (b[1] - py) * (c[0] - px)) * invArea;
+        const w1 = ((c[0] - px) * (a[1] - py) - (c[1] - py) * (a[0] - px)) * invArea;
+        const w2 = 1 - w0 - w1;
+        if (w0 < 0 || w1 < 0 || w2 < 0) continue;
+
+        const z = w0 * a[2] + w1 * b[2] + w2 * c[2];
+        const p = y * this.width + x;
+        if (z > depth[p]) continue;
+        depth[p] = z;
+
+        if (rgb) {
+          const i = p * 4;
+          buf[i] = rgb.r;
+          buf[i + 1] = rgb.g;
+          buf[i + 2] = rgb.b;
+          buf[i + 3] = 255;
+        }
+      }
+    }
+  }
+
+  /**
+   * Fill a convex polygon (triangle fan from the first point).
+   * Pass color = null to write depth only.
+   */
+  fillPolygon(points: RasterPoint[], color: string | null): void {
+    for (let i = 1; i + 1 < points.length; i++) {
+      this.fillTriangle(points[0], points[i], points[i + 1], color);
+    }
+  }
+}
+
+/**
+ * RenderTarget adapter that draws 2D commands into a Rasterizer at depth 0,
+ * so later draws cover earlier ones (same ordering semantics as Canvas).
+ * Lets renderFrame output (e.g. Painter's-sorted batches) go into a pixel buffer.
+ */
+export class RasterizerRenderTarget implements RenderTarget {
+  readonly rasterizer: Rasterizer;
+
+  constructor(rasterizer: Rasterizer) {
+    this.rasterizer = rasterizer;
+  }
+
+  getWidth(): number {
+    return this.rasterizer.getWidth();
+  }
+
+  getHeight(): number {
+    return this.rasterizer.getHeight();
+  }
+
+  clear(color: string = "#000000"): void {
+    this.rasterizer.clear(color);
+  }
+
+  drawLines(
+    segments: Array<[number, number, number, number]>,
+    color: string = "#ffffff",
+    lineWidth: number = 1,
+  ): void {
+    for (const [x1, y1, x2, y2] of segments) {
+      this.rasterizer.drawLine([x1, y1, 0], [x2, y2, 0], color, lineWidth);
+    }
+  }
+
+  fillPolygon(points: Array<[number, number]>, color: string = "#ffffff"): void {
+    this.rasterizer.fillPolygon(
+      points.map(([x, y]): RasterPoint => [x, y, 0]),
+      color,
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import type { RenderTarget } from "./RenderTarget";
+
+/** A draw command captured by RecordingRenderTarget. */
+export type DrawCommand =
+  | { type: "clear"; color: string }
+  | {
+      type: "lines";
+      segments: Array<[number, number, number, number]>;
+      color: string;
+      lineWidth: number;
+    }
+  | { type: "fillPolygon"; points: Array<[number, number]>; color: string };
+
+/**
+ * Render target that records draw commands in memory instead of drawing.
+ * Needs no DOM, so rendering output can be inspected in tests under Node.
+ * Defaults match Canvas.
+ */
+export class RecordingRenderTarget implements RenderTarget {
+  private readonly width: number;
+  private readonly height: number;
+  private readonly _commands: DrawCommand[] = [];
+
+  constructor(width: number, height: number) {
+    this.width = width;
+    this.height = height;
+  }
+
+  /**
+   * Commands recorded since construction or the last reset(), in draw order.
+   */
+  get commands(): readonly DrawCommand[] {
+    return this._commands;
+  }
+
+  /**
+   * Forget all recorded commands.
+   */
+  reset(): void {
+    this._commands.length = 0;
+  }
+
+  getWidth(): number {
+    return this.width;
+  }
+
+  getHeight(): number {
+    return this.height;
+  }
+
+  clear(color: string = "#000000"): void {
+    this._commands.push({ type: "clear", color });
+  }
+
+  drawLines(
+    segments: Array<[number, number, number, number]>,
+    color: string = "#ffffff",
+    lineWidth: number = 1,
+  ): void {
+    this._commands.push({
+      type: "lines",
+      segments: segments.map((s) => [s[0], s[1], s[2], s[3]]),
+      color,
+      lineWidth,
+    });
+  }
+
+  fillPolygon(points: Array<[number, number]>, color: string = "#ffffff"): void {
+    this._commands.push({
+      type: "fillPolygon",
+      points: points.map((p) => [p[0], p[1]]),
+      color,
+    });
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * A 2D drawing surface the frame renderer can draw into.
+ * Canvas implements it for the browser; RecordingRenderTarget captures the
+ * draw commands in memory (headless, e.g. for tests under Node).
+ */
+export interface RenderTarget {
+  /** Width of the drawing surface in pixels. */
+  getWidth(): number;
+  /** Height of the drawing surface in pixels. */
+  getHeight(): number;
+  /** Clear the entire surface with a solid color. */
+  clear(color?: string): void;
+  /** Draw line segments [[x1, y1, x2, y2], ...] in one color and width. */
+  drawLines(
+    segments: Array<[number, number, number, number]>,
+    color?: string,
+    lineWidth?: number,
+  ): void;
+  /** Fill a closed polygon [[x1, y1], [x2, y2], ...] with a solid color. */
+  fillPolygon(points: Array<[number, number]>, color?: string): void;
+}
@@ -3,6 +3,8 @@ import { Camera } from "./Camera";
 
 /**
  * Scene (world) holds all objects to be rendered plus the active camera.
+ * `objects` are the root nodes; each may have children (see Object3D.add),
+ * which are rendered with transforms composed through the parent chain.
  */
 export class Scene {
   private _objects: Object3D[] = [];
@@ -16,7 +18,11 @@ export class Scene {
     return this._objects;
   }
 
+  /**
+   * Add a root object. If it is currently a child of another object, it is detached first.
+   */
   add(object: Object3D): void {
+    object.parent?.remove(object);
     this._objects.push(object);
   }
 
@@ -30,5 +36,23 @@ export class Scene {
   clear(): void {
     this._objects.length = 0;
   }
+
+  /**
+   * Visit every object in the scene graph (roots and all descendants, parents first).
+   */
+  traverse(callback: (object: Object3D) => void): void {
+    for (const object of this._objects) {
+      object.traverse(callback);
+    }
+  }
+
+  /**
+   * All objects in the scene graph as a flat list (roots and all descendants, parents first).
+   */
+  getAllObjects(): Object3D[] {
+    const out: Object3D[] = [];
+    this.traverse((object) => out.push(object));
+    return out;
+  }
 }
 
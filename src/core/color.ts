@@ -0,0 +1,135 @@
+import { CSS_NAMED_COLORS } from "./cssColors";
+
+/**
+ * RGB color with channels in [0, 255].
+ */
+export interface RGB {
+  r: number;
+  g: number;
+  b: number;
+}
+
+/**
+ * RGB color with an alpha channel in [0, 1].
+ */
+export interface RGBA extends RGB {
+  a: number;
+}
+
+/**
+ * Parse a CSS color, dropping any alpha. See parseColorWithAlpha for the
+ * accepted formats. Returns null for anything else.
+ */
+export function parseColor(color: string): RGB | null {
+  const rgba = parseColorWithAlpha(color);
+  return rgba ? { r: rgba.r, g: rgba.g, b: rgba.b } : null;
+}
+
+/**
+ * Parse a CSS color with optional alpha: hex ("#rgb", "#rgba", "#rrggbb",
+ * "#rrggbbaa"), "rgb()"/"rgba()" in comma or space syntax, or a named color
+ * such as "red" or "transparent". Colors without alpha are opaque.
+ * Returns null for any other format (e.g. "hsl()").
+ */
+export function parseColorWithAlpha(color: string): RGBA | null {
+  const text = color.trim().toLowerCase();
+  if (text === "transparent") return { r: 0, g: 0, b: 0, a: 0 };
+  const named = CSS_NAMED_COLORS[text];
+  if (named !== undefined) return parseHex(named);
+  if (text.startsWith("#")) return parseHex(text);
+  return parseRgbFunction(text);
+}
+
+function parseHex(hex: string): RGBA | null {
+  if (!/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.test(hex)) return null;
+  const digits = hex.slice(1);
+  const short = digits.length <= 4;
+  const channel = (i: number) =>
+    short ? parseInt(digits[i] + digits[i], 16) : parseInt(digits.slice(i * 2, i * 2 + 2), 16);
+  const hasAlpha = digits.length === 4 || digits.length === 8;
+  return { r: channel(0), g: channel(1), b: channel(2), a: hasAlpha ? channel(3) / 255 : 1 };
+}
+
+const NUMBER = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?%?$/;
+
+function parseRgbFunction(text: string): RGBA | null {
+  const match = /^rgba?\((.*)\)$/.exec(text);
+  if (!match) return null;
+  const body = match[1].trim();
+  let parts: string[];
+  if (body.includes(",")) {
+    parts = body.split(",").map((part) => part.trim());
+  } else {
+    const [channels, alpha, ...rest] = body.split("/");
+    if (rest.length > 0) return null;
+    parts = channels.trim().split(/\s+/);
+    if (alpha !== undefined) parts.push(alpha.trim());
+  }
+  if ((parts.length !== 3 && parts.length !== 4) || !parts.every((part) => NUMBER.test(part))) return null;
+
+  const value = (part: string, percentScale: number) =>
+    part.endsWith("%") ? (parseFloat(part) / 100) * percentScale : parseFloat(part);
+  const clamp = (v: number, max: number) => Math.min(max, Math.max(0, v));
+  return {
+    r: clamp(value(parts[0], 255), 255),
+    g: clamp(value(parts[1], 255), 255),
+    b: clamp(value(parts[2], 255), 255),
+    a: parts.length === 4 ? clamp(value(parts[3], 1), 1) : 1,
+  };
+}
+
+function parseOrThrow(color: string): RGBA {
+  const rgba = parseColorWithAlpha(color);
+  if (!rgba) throw new Error(`Color: cannot parse "${color}"`);
+  return rgba;
+}
+
+/**
+ * Format an RGB color as "#rrggbb" (channels are rounded and clamped).
+ */
+export function formatColor(rgb: RGB): string {
+  const channel = (v: number) =>
+    Math.round(Math.min(255, Math.max(0, v))).toString(16).padStart(2, "0");
+  return `#${channel(rgb.r)}${channel(rgb.g)}${channel(rgb.b)}`;
+}
+
+/** "#rrggbb" when opaque, "#rrggbbaa" otherwise. */
+function formatColorWithAlpha(rgba: RGBA): string {
+  if (rgba.a >= 1) return formatColor(rgba);
+  const a = Math.round(Math.min(1, Math.max(0, rgba.a)) * 255);
+  return formatColor(rgba) + a.toString(16).padStart(2, "0");
+}
+
+/**
+ * Scale a color's brightness by `factor` (0 = black, 1 = unchanged), keeping
+ * its alpha. Throws on colors parseColorWithAlpha cannot read.
+ */
+export function shadeColor(color: string, factor: number): string {
+  const c = parseOrThrow(color);
+  return formatColorWithAlpha({ r: c.r * factor, g: c.g * factor, b: c.b * factor, a: c.a });
+}
+
+/**
+ * Blend two colors, alpha included: t = 0 gives `from`, t = 1 gives `to`.
+ * Throws on colors parseColorWithAlpha cannot read.
+ */
+export function mixColor(from: string, to: string, t: number): string {
+  const a = parseOrThrow(from);
+  const b = parseOrThrow(to);
+  return formatColorWithAlpha({
+    r: a.r + (b.r - a.r) * t,
+    g: a.g + (b.g - a.g) * t,
+    b: a.b + (b.b - a.b) * t,
+    a: a.a + (b.a - a.a) * t,
+  });
+}
+
+/**
+ * Multiply a color's opacity by `alpha` in [0, 1], giving "#rrggbbaa"
+ * (understood by Canvas and the Rasterizer; the SVG exporter writes it as
+ * stroke-opacity). Throws on colors parseColorWithAlpha cannot read.
+ */
+export function withAlpha(color: string, alpha: number): string {
+  const c = parseOrThrow(color);
+  return formatColorWithAlpha({ ...c, a: c.a * Math.min(1, Math.max(0, alpha)) });
+}
@@ -0,0 +1,155 @@
+import { Vec3 } from "../math/vec3";
+import { Mat4 } from "../math/mat4";
+import { clamp } from "../math/utils";
+import type { Viewport } from "../math/projection";
+import { mixColor, withAlpha } from "./color";
+import type { NdcSegment } from "./hiddenLine";
+
+/**
+ * Fog curve from camera depth d to fog amount f (0 = untouched, 1 = fully faded):
+ * - "linear": f = (d - near) / (far - near), clamped
+ * - "exp": f = 1 - e^(-density * (d - near))
+ * - "exp2": f = 1 - e^(-(density * (d - near))^2)
+ */
+export type FogMode = "linear" | "exp" | "exp2";
+
+export interface DepthCueOptions {
+  /** Default "linear". */
+  mode?: FogMode;
+  /** Camera depth (distance along the view direction) where fading starts. */
+  near: number;
+  /** Camera depth where lines are fully faded ("linear"), or about 98% faded ("exp"/"exp2" with the default density). */
+  far: number;
+  /** Fog density per world unit for "exp"/"exp2". Default: about 98% fog at `far`. */
+  density?: number;
+  /** Color lines fade toward, usually the background. Default "#000000". */
+  color?: string;
+  /** "color": blend toward the fog color; "alpha": fade the line's opacity instead. Default "color". */
+  fade?: "color" | "alpha";
+  /** Line width multiplier at full fog (1 = constant width). Default 1. */
+  farWidthScale?: number;
+  /**
+   * When true, long segments are split so the fade runs along each line;
+   * otherwise each segment gets one fog amount (at its midpoint). Default false.
+   */
+  gradient?: boolean;
+  /** Max screen length in pixels of one gradient piece. Default 8. */
+  gradientStep?: number;
+}
+
+/** Segments that share one (quantized) fog amount. */
+export interface FogGroup {
+  fog: number;
+  segments: NdcSegment[];
+}
+
+/** Fog amounts are rounded to this many steps, so lines batch into few colors. */
+const FOG_LEVELS = 32;
+
+/** -ln(0.02): exponent at which "exp" fog reaches about 98%. */
+const FULL_FOG_EXPONENT = 4;
+
+/**
+ * Fog amount in [0, 1] for a camera depth (0 = untouched, 1 = fully faded).
+ */
+export function fogAmount(depth: number, options: DepthCueOptions): number {
+  const range = options.far - options.near;
+  const d = Math.max(0, depth - options.near);
+  switch (options.mode ?? "linear") {
+    case "linear":
+      return clamp(d / range, 0, 1);
+    case "exp": {
+      const density = options.density ?? FULL_FOG_EXPONENT / range;
+      return 1 - Math.exp(-density * d);
+    }
+    case "exp2": {
+      const density = options.density ?? Math.sqrt(FULL_FOG_EXPONENT) / range;
+      return 1 - Math.exp(-(density * d) * (density * d));
+    }
+  }
+}
+
+/**
+ * Depth cueing for one frame: fades line colors (or opacity) and widths toward
+ * the fog by camera depth. Depth is recovered from NDC through the inverse
+ * projection, so it works for perspective and orthographic cameras alike.
+ */
+export class DepthCue {
+  readonly options: DepthCueOptions;
+  private readonly inverseProjection: Mat4;
+
+  constructor(options: DepthCueOptions, projection: Mat4) {
+    if (!(Number.isFinite(options.near) && Number.isFinite(options.far) && options.far > options.near)) {
+      throw new Error("Depth cue: far must be a number greater than near");
+    }
+    const inverse = projection.inverse();
+    if (!inverse) {
+      throw new Error("Depth cue: projection matrix is not invertible");
+    }
+    this.options = options;
+    this.inverseProjection = inverse;
+  }
+
+  /** Camera depth (positive in front of the camera) of an NDC point. */
+  depthAt(ndc: Vec3): number {
+    return -this.inverseProjection.transformPoint(ndc).z;
+  }
+
+  /** Fog amount at an NDC point, rounded to FOG_LEVELS steps. */
+  fogAt(ndc: Vec3): number {
+    return Math.round(fogAmount(this.depthAt(ndc), this.options) * FOG_LEVELS) / FOG_LEVELS;
+  }
+
+  /**
+   * Group segments by fog amount. In gradient mode each segment is cut into
+   * pieces of at most `gradientStep` pixels (linear in NDC, which is linear on
+   * screen) and consecutive pieces with the same fog are joined again.
+   */
+  groupSegments(segments: NdcSegment[], viewport: Viewport): FogGroup[] {
+    const groups = new Map<number, NdcSegment[]>();
+    const add = (fog: number, segment: NdcSegment) => {
+      const list = groups.get(fog);
+      if (list) list.push(segment);
+      else groups.set(fog, [segment]);
+    };
+    const step = this.options.gradientStep ?? 8;
+
+    for (const [a, b] of segments) {
+      if (!this.options.gradient) {
+        add(this.fogAt(lerpNdc(a, b, 0.5)), [a, b]);
+        continue;
+      }
+
+      const length = Math.hypot(((b.x - a.x) * viewport.width) / 2, ((b.y - a.y) * viewport.height) / 2);
+      const pieces = Math.max(1, Math.ceil(length / step));
+      let start = a;
+      let fog = this.fogAt(lerpNdc(a, b, 0.5 / pieces));
+      for (let k = 1; k < pieces; k++) {
+        const next = this.fogAt(lerpNdc(a, b, (k + 0.5) / pieces));
+        if (next === fog) continue;
+        const cut = lerpNdc(a, b, k / pieces);
+        add(fog, [start, cut]);
+        start = cut;
+        fog = next;
+      }
+      add(fog, [start, b]);
+    }
+
+    return Array.from(groups, ([fog, list]) => ({ fog, segments: list }));
+  }
+
+  /** Line color at a fog amount. */
+  colorAt(color: string, fog: number): string {
+    if (this.options.fade === "alpha") return withAlpha(color, 1 - fog);
+    return mixColor(color, this.options.color ?? "#000000", fog);
+  }
+
+  /** Line width multiplier at a fog amount. */
+  widthScaleAt(fog: number): number {
+    return 1 + ((this.options.farWidthScale ?? 1) - 1) * fog;
+  }
+}
+
+function lerpNdc(a: Vec3, b: Vec3, t: number): Vec3 {
+  return new Vec3(a.x + (b.x - a.x) * t, a.y + (b.y - a.y) * t, a.z + (b.z - a.z) * t);
+}
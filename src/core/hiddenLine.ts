@@ -0,0 +1,192 @@
+import { Vec3 } from "../math/vec3";
+import { Vec4 } from "../math/vec4";
+import { clipPolygon } from "../math/clipping";
+import { clipToNdc } from "../math/projection";
+
+/** Tolerance for NDC depth comparisons (edges lying on a face are not hidden by it). */
+const DEPTH_EPSILON = 1e-7;
+
+/** Tolerance for parametric intervals along a segment. */
+const PARAM_EPSILON = 1e-9;
+
+/**
+ * Visible pieces shorter than this (in NDC x/y) after splitting are dropped;
+ * they are slivers left over by DEPTH_EPSILON where an edge meets a face.
+ */
+const MIN_PIECE_LENGTH = 1e-4;
+
+/** A line segment in NDC space (x, y in [-1, 1], z increases away from the camera). */
+export type NdcSegment = [Vec3, Vec3];
+
+/**
+ * A polygon that can hide lines behind it, prepared for screen-space tests.
+ * Vertices are in NDC after clipping against the view frustum; the plane is
+ * expressed in NDC, which is valid because the projection maps planes to planes.
+ */
+export interface Occluder {
+  vertices: Vec3[];
+  /** Plane normal in NDC (unnormalized). */
+  normal: Vec3;
+  /** Sign of the polygon's signed area in NDC x/y (+1 counter-clockwise, -1 clockwise). */
+  orientation: number;
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/**
+ * Build an occluder from a polygon's clip-space vertices.
+ * The polygon is clipped against the frustum first, so faces crossing the
+ * near plane still occlude with their visible part. Assumes convex polygons.
+ * Returns null if the polygon is outside the frustum or seen edge-on.
+ */
+export function buildOccluder(clipVertices: Vec4[], vertexIndices: number[]): Occluder | null {
+  if (vertexIndices.length < 3) return null;
+
+  const clipped = clipPolygon(vertexIndices.map((i) => clipVertices[i]));
+  if (clipped.length < 3) return null;
+
+  const vertices = clipped.map(clipToNdc);
+
+  // Newell's method: robust normal for (nearly) planar polygons.
+  let nx = 0, ny = 0, nz = 0;
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (let i = 0; i < vertices.length; i++) {
+    const a = vertices[i];
+    const b = vertices[(i + 1) % vertices.length];
+    nx += (a.y - b.y) * (a.z + b.z);
+    ny += (a.z - b.z) * (a.x + b.x);
+    nz += (a.x - b.x) * (a.y + b.y);
+    if (a.x < minX) minX = a.x;
+    if (a.y < minY) minY = a.y;
+    if (a.x > maxX) maxX = a.x;
+    if (a.y > maxY) maxY = a.y;
+  }
+
+  // nz is twice the signed area of the projected polygon; zero means edge-on.
+  if (Math.abs(nz) < PARAM_EPSILON) return null;
+
+  return {
+    vertices,
+    normal: new Vec3(nx, ny, nz),
+    orientation: nz > 0 ? 1 : -1,
+    minX,
+    minY,
+    maxX,
+    maxY,
+  };
+}
+
+/**
+ * Parametric range [t0, t1] of segment a→b that lies inside the occluder's
+ * projection in x/y (Cyrus-Beck against each polygon edge), or null if none.
+ */
+function insideRange(a: Vec3, b: Vec3, occluder: Occluder): [number, number] | null {
+  const verts = occluder.vertices;
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  let t0 = 0;
+  let t1 = 1;
+
+  for (let i = 0; i < verts.length; i++) {
+    const p = verts[i];
+    const q = verts[(i + 1) % verts.length];
+    const ex = q.x - p.x;
+    const ey = q.y - p.y;
+    // Inside when orientation * cross(edge, point - p) >= 0; linear in t: f0 + t * df.
+    const f0 = occluder.orientation * (ex * (a.y - p.y) - ey * (a.x - p.x));
+    const df = occluder.orientation * (ex * dy - ey * dx);
+
+    if (Math.abs(df) < PARAM_EPSILON) {
+      if (f0 < 0) return null;
+      continue;
+    }
+    const t = -f0 / df;
+    if (df > 0) {
+      if (t > t0) t0 = t;
+    } else {
+      if (t < t1) t1 = t;
+    }
+    if (t0 >= t1) return null;
+  }
+
+  return [t0, t1];
+}
+
+/**
+ * Parametric range [t0, t1] of segment a→b that lies behind the occluder's plane
+ * (greater NDC depth than the plane at the same screen position), or null if none.
+ */
+function behindRange(a: Vec3, b: Vec3, occluder: Occluder): [number, number] | null {
+  const n = occluder.normal;
+  const o = occluder.vertices[0];
+  // Plane depth at (x, y): z = o.z - (n.x * (x - o.x) + n.y * (y - o.y)) / n.z
+  const planeZ = (p: Vec3) => o.z - (n.x * (p.x - o.x) + n.y * (p.y - o.y)) / n.z;
+  const fa = a.z - planeZ(a) - DEPTH_EPSILON;
+  const fb = b.z - planeZ(b) - DEPTH_EPSILON;
+
+  if (fa <= 0 && fb <= 0) return null;
+  if (fa > 0 && fb > 0) return [0, 1];
+  const t = fa / (fa - fb);
+  return fa > 0 ? [0, t] : [t, 1];
+}
+
+/**
+ * Split a segment against a set of occluders and return only its visible parts.
+ * A part is hidden when it lies inside an occluder's screen-space projection
+ * and behind that occluder's plane. The segment's own polygon may be passed
+ * as `self` so it is skipped.
+ */
+export function removeHiddenParts(
+  segment: NdcSegment,
+  occluders: readonly Occluder[],
+  self?: Occluder | null,
+): NdcSegment[] {
+  const [a, b] = segment;
+  const segMinX = Math.min(a.x, b.x);
+  const segMaxX = Math.max(a.x, b.x);
+  const segMinY = Math.min(a.y, b.y);
+  const segMaxY = Math.max(a.y, b.y);
+
+  const hidden: Array<[number, number]> = [];
+  for (const occluder of occluders) {
+    if (occluder === self) continue;
+    if (
+      occluder.maxX < segMinX ||
+      occluder.minX > segMaxX ||
+      occluder.maxY < segMinY ||
+      occluder.minY > segMaxY
+    ) {
+      continue;
+    }
+
+    const inside = insideRange(a, b, occluder);
+    if (!inside) continue;
+    const behind = behindRange(a, b, occluder);
+    if (!behind) continue;
+
+    const t0 = Math.max(inside[0], behind[0]);
+    const t1 = Math.min(inside[1], behind[1]);
+    if (t1 - t0 > PARAM_EPSILON) hidden.push([t0, t1]);
+  }
+
+  if (hidden.length === 0) return [segment];
+
+  // Subtract the union of hidden intervals from [0, 1].
+  hidden.sort((x, y) => x[0] - y[0]);
+  const minT = MIN_PIECE_LENGTH / Math.max(Math.hypot(b.x - a.x, b.y - a.y), PARAM_EPSILON);
+  const visible: NdcSegment[] = [];
+  let cursor = 0;
+  for (const [t0, t1] of hidden) {
+    if (t0 - cursor > minT) {
+      visible.push([Vec3.lerp(a, b, cursor), Vec3.lerp(a, b, t0)]);
+    }
+    if (t1 > cursor) cursor = t1;
+  }
+  if (1 - cursor > minT) {
+    visible.push([Vec3.lerp(a, b, cursor), b]);
+  }
+
+  return visible;
+}
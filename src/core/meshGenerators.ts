@@ -0,0 +1,485 @@
+import { Vec3 } from "../math/vec3";
+import { Mesh } from "./Mesh";
+
+const DEFAULT_GENERATOR_COLOR = "#ffffff";
+
+/**
+ * Options shared by all generators. Shapes are centered on the local origin;
+ * round shapes use Y as their axis. Polygons are wound counter-clockwise seen
+ * from outside, so their normals point outward (as back-face culling expects).
+ */
+export interface MeshGeneratorOptions {
+  /**
+   * Polygon color, or a list of colors used polygon by polygon (cycling).
+   * Default "#ffffff".
+   */
+  color?: string | readonly string[];
+}
+
+export interface PlaneOptions extends MeshGeneratorOptions {
+  /** Size along X. Default 1. */
+  width?: number;
+  /** Size along Z. Default 1. */
+  depth?: number;
+  /** Quads along X. Default 1. */
+  widthSegments?: number;
+  /** Quads along Z. Default 1. */
+  depthSegments?: number;
+}
+
+export interface UvSphereOptions extends MeshGeneratorOptions {
+  /** Default 1. */
+  radius?: number;
+  /** Segments around the Y axis (>= 3). Default 16. */
+  widthSegments?: number;
+  /** Segments from pole to pole (>= 2). Default 8. */
+  heightSegments?: number;
+}
+
+export interface IcosphereOptions extends MeshGeneratorOptions {
+  /** Default 1. */
+  radius?: number;
+  /** Times each triangle is split into four (0 = icosahedron). Default 1. */
+  subdivisions?: number;
+}
+
+export interface CylinderOptions extends MeshGeneratorOptions {
+  /** Radius at +height/2 (0 for a point). Default 1. */
+  radiusTop?: number;
+  /** Radius at -height/2 (0 for a point). Default 1. */
+  radiusBottom?: number;
+  /** Default 2. */
+  height?: number;
+  /** Segments around the Y axis (>= 3). Default 16. */
+  radialSegments?: number;
+  /** Rows along the height. Default 1. */
+  heightSegments?: number;
+  /** When false, the ends are left open. Default true. */
+  capped?: boolean;
+}
+
+export interface ConeOptions extends MeshGeneratorOptions {
+  /** Base radius. Default 1. */
+  radius?: number;
+  /** Default 2. */
+  height?: number;
+  /** Segments around the Y axis (>= 3). Default 16. */
+  radialSegments?: number;
+  /** Rows along the height. Default 1. */
+  heightSegments?: number;
+  /** When false, the base is left open. Default true. */
+  capped?: boolean;
+}
+
+export interface TorusOptions extends MeshGeneratorOptions {
+  /** Distance from the center to the middle of the tube. Default 1. */
+  radius?: number;
+  /** Tube radius. Default 0.25. */
+  tube?: number;
+  /** Segments around the tube cross-section (>= 3). Default 8. */
+  radialSegments?: number;
+  /** Segments around the ring (>= 3). Default 24. */
+  tubularSegments?: number;
+}
+
+export interface CapsuleOptions extends MeshGeneratorOptions {
+  /** Default 0.5. */
+  radius?: number;
+  /** Length of the straight middle part (total height is height + 2 * radius). Default 1. */
+  height?: number;
+  /** Rows per hemispherical cap (>= 1). Default 4. */
+  capSegments?: number;
+  /** Segments around the Y axis (>= 3). Default 16. */
+  radialSegments?: number;
+  /** Rows along the straight part. Default 1. */
+  heightSegments?: number;
+}
+
+export interface PrismOptions extends MeshGeneratorOptions {
+  /** Circumradius of the cross-section. Default 1. */
+  radius?: number;
+  /** Default 2. */
+  height?: number;
+  /** Number of sides (>= 3). Default 6. */
+  sides?: number;
+}
+
+export interface PlatonicSolidOptions extends MeshGeneratorOptions {
+  /** Circumradius (center to vertex). Default 1. */
+  radius?: number;
+}
+
+/**
+ * Flat rectangle in the XZ plane facing +Y, split into a grid of quads.
+ * Vertices: (widthSegments + 1) * (depthSegments + 1); polygons: widthSegments * depthSegments.
+ */
+export function createPlane(options?: PlaneOptions): Mesh {
+  const width = positive("width", options?.width ?? 1);
+  const depth = positive("depth", options?.depth ?? 1);
+  const nx = segments("widthSegments", options?.widthSegments ?? 1, 1);
+  const nz = segments("depthSegments", options?.depthSegments ?? 1, 1);
+
+  const vertices: Vec3[] = [];
+  for (let i = 0; i <= nx; i++) {
+    for (let j = 0; j <= nz; j++) {
+      vertices.push(new Vec3(width * (i / nx - 0.5), 0, depth * (j / nz - 0.5)));
+    }
+  }
+  const index = (i: number, j: number) => i * (nz + 1) + j;
+  const faces: number[][] = [];
+  for (let i = 0; i < nx; i++) {
+    for (let j = 0; j < nz; j++) {
+      faces.push([index(i, j), index(i, j + 1), index(i + 1, j + 1), index(i + 1, j)]);
+    }
+  }
+  return buildMesh(vertices, faces, options);
+}
+
+/**
+ * Sphere from latitude/longitude rings: triangles at the poles, quads elsewhere.
+ * Vertices: widthSegments * (heightSegments - 1) + 2;
+ * polygons: widthSegments * heightSegments.
+ */
+export function createUvSphere(options?: UvSphereOptions): Mesh {
+  const radius = positive("radius", options?.radius ?? 1);
+  const radial = segments("widthSegments", options?.widthSegments ?? 16, 3);
+  const rows = segments("heightSegments", options?.heightSegments ?? 8, 2);
+
+  const profile: ProfilePoint[] = [];
+  for (let i = 0; i <= rows; i++) {
+    const phi = (Math.PI * i) / rows;
+    profile.push({ r: i === 0 || i === rows ? 0 : radius * Math.sin(phi), y: radius * Math.cos(phi) });
+  }
+  const { vertices, faces } = lathe(profile, radial);
+  return buildMesh(vertices, faces, options);
+}
+
+/**
+ * Sphere from a subdivided icosahedron: evenly sized triangles, no poles.
+ * Vertices: 10 * 4^subdivisions + 2; polygons: 20 * 4^subdivisions.
+ */
+export function createIcosphere(options?: IcosphereOptions): Mesh {
+  const radius = positive("radius", options?.radius ?? 1);
+  const subdivisions = segments("subdivisions", options?.subdivisions ?? 1, 0);
+
+  const vertices = ICOSAHEDRON_VERTICES.map((v) => v.normalize());
+  let faces = ICOSAHEDRON_FACES.map((face) => face.slice());
+  for (let s = 0; s < subdivisions; s++) {
+    const midpoints = new Map<string, number>();
+    const midpoint = (a: number, b: number): number => {
+      const key = a < b ? `${a},${b}` : `${b},${a}`;
+      let index = midpoints.get(key);
+      if (index === undefined) {
+        index = vertices.length;
+        vertices.push(vertices[a].add(vertices[b]).normalize());
+        midpoints.set(key, index);
+      }
+      return index;
+    };
+    const next: number[][] = [];
+    for (const [a, b, c] of faces) {
+      const ab = midpoint(a, b);
+      const bc = midpoint(b, c);
+      const ca = midpoint(c, a);
+      next.push([a, ab, ca], [b, bc, ab], [c, ca, bc], [ab, bc, ca]);
+    }
+    faces = next;
+  }
+  return buildMesh(vertices.map((v) => v.scale(radius)), faces, options);
+}
+
+/**
+ * Cylinder (or truncated cone) along Y with optional flat end caps.
+ * A zero radius closes that end in a single point (no cap).
+ * Vertices: radialSegments * (heightSegments + 1), minus radialSegments - 1 per
+ * pointed end; polygons: radialSegments * heightSegments + one per cap.
+ */
+export function createCylinder(options?: CylinderOptions): Mesh {
+  const radiusTop = nonNegative("radiusTop", options?.radiusTop ?? 1);
+  const radiusBottom = nonNegative("radiusBottom", options?.radiusBottom ?? 1);
+  const height = positive("height", options?.height ?? 2);
+  const radial = segments("radialSegments", options?.radialSegments ?? 16, 3);
+  const rows = segments("heightSegments", options?.heightSegments ?? 1, 1);
+  if (radiusTop === 0 && radiusBottom === 0) {
+    throw new Error("Mesh generator: radiusTop and radiusBottom cannot both be 0");
+  }
+
+  const profile: ProfilePoint[] = [];
+  for (let i = 0; i <= rows; i++) {
+    const t = i / rows;
+    profile.push({ r: radiusTop + (radiusBottom - radiusTop) * t, y: height * (0.5 - t) });
+  }
+  const { vertices, faces, rings } = lathe(profile, radial);
+
+  if (options?.capped ?? true) {
+    const top = rings[0];
+    const bottom = rings[rings.length - 1];
+    if (top.length > 1) faces.push(top.slice());
+    if (bottom.length > 1) faces.push(bottom.slice().reverse());
+  }
+  return buildMesh(vertices, faces, options);
+}
+
+/**
+ * Cone along Y with its apex at +height/2 and an optional base cap.
+ * Vertices: radialSegments * heightSegments + 1;
+ * polygons: radialSegments * heightSegments (+ 1 base).
+ */
+export function createCone(options?: ConeOptions): Mesh {
+  return createCylinder({
+    color: options?.color,
+    radiusTop: 0,
+    radiusBottom: positive("radius", options?.radius ?? 1),
+    height: options?.height,
+    radialSegments: options?.radialSegments,
+    heightSegments: options?.heightSegments,
+    capped: options?.capped,
+  });
+}
+
+/**
+ * Ring around the Y axis, made of quads.
+ * Vertices and polygons: tubularSegments * radialSegments.
+ */
+export function createTorus(options?: TorusOptions): Mesh {
+  const radius = positive("radius", options?.radius ?? 1);
+  const tube = positive("tube", options?.tube ?? 0.25);
+  const radial = segments("radialSegments", options?.radialSegments ?? 8, 3);
+  const tubular = segments("tubularSegments", options?.tubularSegments ?? 24, 3);
+  if (tube >= radius) {
+    throw new Error("Mesh generator: tube must be smaller than radius");
+  }
+
+  // Tube cross-section, starting on the outside and going down (like the other profiles)
+  const profile: ProfilePoint[] = [];
+  for (let j = 0; j < radial; j++) {
+    const v = (2 * Math.PI * j) / radial;
+    profile.push({ r: radius + tube * Math.cos(v), y: -tube * Math.sin(v) });
+  }
+  const { vertices, faces } = lathe(profile, tubular, true);
+  return buildMesh(vertices, faces, options);
+}
+
+/**
+ * Cylinder with hemispherical ends, along Y.
+ * Vertices: radialSegments * (2 * capSegments + heightSegments - 1) + 2;
+ * polygons: radialSegments * (2 * capSegments + heightSegments).
+ */
+export function createCapsule(options?: CapsuleOptions): Mesh {
+  const radius = positive("radius", options?.radius ?? 0.5);
+  const height = positive("height", options?.height ?? 1);
+  const capRows = segments("capSegments", options?.capSegments ?? 4, 1);
+  const radial = segments("radialSegments", options?.radialSegments ?? 16, 3);
+  const rows = segments("heightSegments", options?.heightSegments ?? 1, 1);
+
+  const half = height / 2;
+  const profile: ProfilePoint[] = [];
+  for (let i = 0; i <= capRows; i++) {
+    const phi = ((Math.PI / 2) * i) / capRows;
+    profile.push({ r: i === 0 ? 0 : radius * Math.sin(phi), y: half + radius * Math.cos(phi) });
+  }
+  for (let k = 1; k < rows; k++) {
+    profile.push({ r: radius, y: half - (height * k) / rows });
+  }
+  for (let i = 0; i <= capRows; i++) {
+    const phi = Math.PI / 2 + ((Math.PI / 2) * i) / capRows;
+    profile.push({ r: i === capRows ? 0 : radius * Math.sin(phi), y: -half + radius * Math.cos(phi) });
+  }
+  const { vertices, faces } = lathe(profile, radial);
+  return buildMesh(vertices, faces, options);
+}
+
+/**
+ * Right prism along Y with a regular polygon cross-section and capped ends.
+ * Vertices: 2 * sides; polygons: sides + 2.
+ */
+export function createPrism(options?: PrismOptions): Mesh {
+  const radius = options?.radius ?? 1;
+  return createCylinder({
+    color: options?.color,
+    radiusTop: radius,
+    radiusBottom: radius,
+    height: options?.height,
+    radialSegments: segments("sides", options?.sides ?? 6, 3),
+  });
+}
+
+/** Tetrahedron: 4 vertices, 4 triangles. */
+export function createTetrahedron(options?: PlatonicSolidOptions): Mesh {
+  const vertices = [new Vec3(1, 1, 1), new Vec3(-1, -1, 1), new Vec3(-1, 1, -1), new Vec3(1, -1, -1)];
+  const faces = [[2, 1, 0], [0, 3, 2], [1, 3, 0], [2, 3, 1]];
+  return platonicMesh(vertices, faces, options);
+}
+
+/** Cube (hexahedron): 8 vertices, 6 quads. */
+export function createCube(options?: PlatonicSolidOptions): Mesh {
+  const vertices = [
+    new Vec3(-1, -1, -1), new Vec3(1, -1, -1), new Vec3(1, 1, -1), new Vec3(-1, 1, -1),
+    new Vec3(-1, -1, 1), new Vec3(1, -1, 1), new Vec3(1, 1, 1), new Vec3(-1, 1, 1),
+  ];
+  const faces = [
+    [4, 5, 6, 7], [1, 0, 3, 2], [5, 1, 2, 6],
+    [0, 4, 7, 3], [7, 6, 2, 3], [0, 1, 5, 4],
+  ];
+  return platonicMesh(vertices, faces, options);
+}
+
+/** Octahedron: 6 vertices, 8 triangles. */
+export function createOctahedron(options?: PlatonicSolidOptions): Mesh {
+  const vertices = [
+    new Vec3(1, 0, 0), new Vec3(-1, 0, 0), new Vec3(0, 1, 0),
+    new Vec3(0, -1, 0), new Vec3(0, 0, 1), new Vec3(0, 0, -1),
+  ];
+  const faces = [
+    [0, 2, 4], [0, 4, 3], [0, 3, 5], [0, 5, 2],
+    [1, 2, 5], [1, 5, 3], [1, 3, 4], [1, 4, 2],
+  ];
+  return platonicMesh(vertices, faces, options);
+}
+
+/**
+ * Dodecahedron: 20 vertices, 12 pentagons. Built as the dual of the icosahedron
+ * (one vertex per icosahedron face, one face per icosahedron vertex).
+ */
+export function createDodecahedron(options?: PlatonicSolidOptions): Mesh {
+  const ico = ICOSAHEDRON_VERTICES;
+  const vertices = ICOSAHEDRON_FACES.map(([a, b, c]) => ico[a].add(ico[b]).add(ico[c]));
+  const faces = ico.map((corner, v) => {
+    const around = ICOSAHEDRON_FACES.map((face, f) => (face.includes(v) ? f : -1)).filter((f) => f !== -1);
+    return sortCounterClockwise(around, vertices, corner);
+  });
+  return platonicMesh(vertices, faces, options);
+}
+
+/** Icosahedron: 12 vertices, 20 triangles. */
+export function createIcosahedron(options?: PlatonicSolidOptions): Mesh {
+  return platonicMesh(ICOSAHEDRON_VERTICES, ICOSAHEDRON_FACES, options);
+}
+
+const GOLDEN_RATIO = (1 + Math.sqrt(5)) / 2;
+
+const ICOSAHEDRON_VERTICES: readonly Vec3[] = [
+  new Vec3(-1, GOLDEN_RATIO, 0), new Vec3(1, GOLDEN_RATIO, 0),
+  new Vec3(-1, -GOLDEN_RATIO, 0), new Vec3(1, -GOLDEN_RATIO, 0),
+  new Vec3(0, -1, GOLDEN_RATIO), new Vec3(0, 1, GOLDEN_RATIO),
+  new Vec3(0, -1, -GOLDEN_RATIO), new Vec3(0, 1, -GOLDEN_RATIO),
+  new Vec3(GOLDEN_RATIO, 0, -1), new Vec3(GOLDEN_RATIO, 0, 1),
+  new Vec3(-GOLDEN_RATIO, 0, -1), new Vec3(-GOLDEN_RATIO, 0, 1),
+];
+
+const ICOSAHEDRON_FACES: readonly number[][] = [
+  [0, 11, 5], [0, 5, 1], [0, 1, 7], [0, 7, 10], [0, 10, 11],
+  [1, 5, 9], [5, 11, 4], [11, 10, 2], [10, 7, 6], [7, 1, 8],
+  [3, 9, 4], [3, 4, 2], [3, 2, 6], [3, 6, 8], [3, 8, 9],
+  [4, 9, 5], [2, 4, 11], [6, 2, 10], [8, 6, 7], [9, 8, 1],
+];
+
+/** A point of a surface-of-revolution profile: distance from the Y axis and height. */
+interface ProfilePoint {
+  r: number;
+  y: number;
+}
+
+/**
+ * Revolve a profile around the Y axis. The profile runs down the outside of the
+ * shape (so quads wind outward); a zero radius at either end becomes a single pole
+ * vertex with a fan of triangles. With `closed`, the last profile point connects
+ * back to the first (e.g. a torus cross-section).
+ * Returns the vertex indices of each ring too, in counter-clockwise order seen from +Y.
+ */
+function lathe(
+  profile: ProfilePoint[],
+  radialSegments: number,
+  closed: boolean = false,
+): { vertices: Vec3[]; faces: number[][]; rings: number[][] } {
+  const vertices: Vec3[] = [];
+  const rings = profile.map(({ r, y }) => {
+    if (r === 0) {
+      vertices.push(new Vec3(0, y, 0));
+      return [vertices.length - 1];
+    }
+    const ring: number[] = [];
+    for (let j = 0; j < radialSegments; j++) {
+      const theta = (2 * Math.PI * j) / radialSegments;
+      ring.push(vertices.length);
+      vertices.push(new Vec3(r * Math.sin(theta), y, r * Math.cos(theta)));
+    }
+    return ring;
+  });
+
+  const faces: number[][] = [];
+  const bands = closed ? rings.length : rings.length - 1;
+  for (let i = 0; i < bands; i++) {
+    const top = rings[i];
+    const bottom = rings[(i + 1) % rings.length];
+    for (let j = 0; j < radialSegments; j++) {
+      const k = (j + 1) % radialSegments;
+      if (top.length === 1) {
+        faces.push([top[0], bottom[j], bottom[k]]);
+      } else if (bottom.length === 1) {
+        faces.push([top[j], bottom[0], top[k]]);
+      } else {
+        faces.push([top[j], bottom[j], bottom[k], top[k]]);
+      }
+    }
+  }
+  return { vertices, faces, rings };
+}
+
+/**
+ * Order the indices of a convex face's vertices counter-clockwise seen from
+ * outside, i.e. looking against `outward`.
+ */
+function sortCounterClockwise(indices: number[], vertices: readonly Vec3[], outward: Vec3): number[] {
+  const center = indices.reduce((sum, i) => sum.add(vertices[i]), Vec3.zero()).scale(1 / indices.length);
+  const normal = outward.normalize();
+  const u = vertices[indices[0]].sub(center).normalize();
+  const w = normal.cross(u);
+  const angle = (i: number) => {
+    const d = vertices[i].sub(center);
+    return Math.atan2(d.dot(w), d.dot(u));
+  };
+  return indices.slice().sort((a, b) => angle(a) - angle(b));
+}
+
+function platonicMesh(vertices: readonly Vec3[], faces: readonly number[][], options?: PlatonicSolidOptions): Mesh {
+  const radius = positive("radius", options?.radius ?? 1);
+  return buildMesh(
+    vertices.map((v) => v.normalize().scale(radius)),
+    faces.map((face) => face.slice()),
+    options,
+  );
+}
+
+function buildMesh(vertices: Vec3[], faces: number[][], options?: MeshGeneratorOptions): Mesh {
+  const color = options?.color ?? DEFAULT_GENERATOR_COLOR;
+  const colors = typeof color === "string" ? [color] : color;
+  if (colors.length === 0) {
+    throw new Error("Mesh generator: color list is empty");
+  }
+  return new Mesh(
+    vertices,
+    faces.map((vertexIndices, i) => ({ color: colors[i % colors.length], vertexIndices })),
+  );
+}
+
+function positive(name: string, value: number): number {
+  if (!(Number.isFinite(value) && value > 0)) {
+    throw new Error(`Mesh generator: ${name} must be a positive number, got ${value}`);
+  }
+  return value;
+}
+
+function nonNegative(name: string, value: number): number {
+  if (!(Number.isFinite(value) && value >= 0)) {
+    throw new Error(`Mesh generator: ${name} must be a non-negative number, got ${value}`);
+  }
+  return value;
+}
+
+function segments(name: string, value: number, min: number): number {
+  if (!Number.isInteger(value) || value < min) {
+    throw new Error(`Mesh generator: ${name} must be an integer >= ${min}, got ${value}`);
+  }
+  return value;
+}
@@ -0,0 +1,435 @@
+import { Vec3 } from "../math/vec3";
+import type { MeshData, Polygon } from "../io/meshLoader";
+
+export type MeshIssueSeverity = "error" | "warning" | "info";
+
+/**
+ * Kind of problem found by validateMesh (default severity in parentheses):
+ * - "invalidPolygon" (error): the polygon has no color string or no vertexIndices array
+ * - "indexOutOfRange" (error): an index is not an integer in [0, vertices.length)
+ * - "invalidVertex" (error): a coordinate is NaN or infinite
+ * - "duplicateVertex" (warning): vertices within weldDistance of each other
+ * - "zeroLengthEdge" (warning): consecutive polygon vertices coincide
+ * - "degeneratePolygon" (warning): fewer than three distinct vertices, or no area
+ *   (two-vertex polygons are lines and are allowed)
+ * - "nonPlanarPolygon" (warning): vertices off the polygon's plane by more than planarityTolerance
+ * - "nonManifoldEdge" (warning): an edge shared by more than two polygons
+ * - "inconsistentWinding" (warning): two polygons run along their shared edge in the same direction
+ * - "invertedWinding" (warning): a closed surface whose polygons all face inward
+ * - "unusedVertex" (info): vertices no polygon refers to
+ */
+export type MeshIssueCode =
+  | "invalidPolygon"
+  | "indexOutOfRange"
+  | "invalidVertex"
+  | "duplicateVertex"
+  | "zeroLengthEdge"
+  | "degeneratePolygon"
+  | "nonPlanarPolygon"
+  | "nonManifoldEdge"
+  | "inconsistentWinding"
+  | "invertedWinding"
+  | "unusedVertex";
+
+export interface MeshIssue {
+  code: MeshIssueCode;
+  severity: MeshIssueSeverity;
+  message: string;
+  /** Indices into polygons of the polygons involved. */
+  polygons?: number[];
+  /** Indices into vertices of the vertices involved. */
+  vertices?: number[];
+}
+
+export interface MeshValidationReport {
+  /** False when there is at least one "error" issue (the renderer would crash or draw garbage). */
+  valid: boolean;
+  issues: MeshIssue[];
+}
+
+export interface MeshValidationOptions {
+  /** Vertices closer than this are duplicates (and are welded by repairMesh). Default 1e-6. */
+  weldDistance?: number;
+  /** Max distance of a vertex from its polygon's plane, relative to the polygon's size. Default 1e-3. */
+  planarityTolerance?: number;
+}
+
+export interface MeshRepairResult {
+  data: MeshData;
+  /** Validation of the input mesh (what was repaired). */
+  report: MeshValidationReport;
+  /** Duplicate vertices merged into another vertex. */
+  weldedVertices: number;
+  /** Invalid or unused vertices dropped. */
+  removedVertices: number;
+  /** Invalid and degenerate polygons dropped. */
+  removedPolygons: number;
+  /** Polygons whose winding was reversed. */
+  flippedPolygons: number;
+}
+
+const DEFAULT_WELD_DISTANCE = 1e-6;
+const DEFAULT_PLANARITY_TOLERANCE = 1e-3;
+
+/** A polygon whose area is below this times its size squared has no area. */
+const DEGENERATE_AREA_RATIO = 1e-10;
+
+/** Everything validateMesh finds, plus what repairMesh needs to fix it. */
+interface MeshAnalysis {
+  issues: MeshIssue[];
+  /** Per vertex: index of the first vertex it welds to (itself if unique), or -1 when invalid. */
+  weld: number[];
+  /** Per polygon: its vertex loop in welded indices without zero-length edges, or null to drop it. */
+  loops: (number[] | null)[];
+  /** Per polygon: reverse it to make winding consistent (and closed surfaces outward). */
+  flip: boolean[];
+}
+
+/** One polygon running along an edge; `forward` when it goes from the lower to the higher index. */
+interface EdgeUse {
+  polygon: number;
+  forward: boolean;
+}
+
+/**
+ * Check mesh data for problems and report each with its severity and the
+ * polygon/vertex indices involved. Safe on untrusted data (e.g. straight from
+ * JSON): it never throws. Welded duplicates count as the same vertex for the
+ * edge and winding checks.
+ */
+export function validateMesh(data: MeshData, options?: MeshValidationOptions): MeshValidationReport {
+  const { issues } = analyzeMesh(data, options);
+  return { valid: !issues.some((issue) => issue.severity === "error"), issues };
+}
+
+/**
+ * Repair what validateMesh reports: drop invalid vertices and the polygons that
+ * use them, weld duplicate vertices, remove zero-length edges and degenerate
+ * polygons, and reverse polygons so neighbours agree on winding. Closed
+ * surfaces are oriented so their normals point outward. Unused vertices are
+ * dropped and indices renumbered. Non-planar polygons and non-manifold edges
+ * are reported but left as they are.
+ */
+export function repairMesh(data: MeshData, options?: MeshValidationOptions): MeshRepairResult {
+  const { issues, weld, loops, flip } = analyzeMesh(data, options);
+
+  const remap = new Map<number, number>();
+  const vertices: Vec3[] = [];
+  const polygons: Polygon[] = [];
+  let flippedPolygons = 0;
+  loops.forEach((loop, p) => {
+    if (!loop) return;
+    const ordered = flip[p] ? [loop[0], ...loop.slice(1).reverse()] : loop;
+    if (flip[p]) flippedPolygons++;
+    const vertexIndices = ordered.map((index) => {
+      let mapped = remap.get(index);
+      if (mapped === undefined) {
+        mapped = vertices.length;
+        remap.set(index, mapped);
+        vertices.push(data.vertices[index]);
+      }
+      return mapped;
+    });
+    polygons.push({ ...data.polygons[p], vertexIndices });
+  });
+
+  const weldedVertices = weld.filter((rep, i) => rep !== -1 && rep !== i).length;
+  return {
+    data: { vertices, polygons },
+    report: { valid: !issues.some((issue) => issue.severity === "error"), issues },
+    weldedVertices,
+    removedVertices: data.vertices.length - vertices.length - weldedVertices,
+    removedPolygons: data.polygons.length - polygons.length,
+    flippedPolygons,
+  };
+}
+
+function analyzeMesh(data: MeshData, options?: MeshValidationOptions): MeshAnalysis {
+  const issues: MeshIssue[] = [];
+  const vertices = data.vertices;
+  const valid = vertices.map((v) => !!v && Number.isFinite(v.x) && Number.isFinite(v.y) && Number.isFinite(v.z));
+  const weld = weldVertices(vertices, valid, options?.weldDistance ?? DEFAULT_WELD_DISTANCE);
+  const planarity = options?.planarityTolerance ?? DEFAULT_PLANARITY_TOLERANCE;
+
+  const duplicates = new Map<number, number[]>();
+  weld.forEach((rep, i) => {
+    if (rep === -1 || rep === i) return;
+    const group = duplicates.get(rep);
+    if (group) group.push(i);
+    else duplicates.set(rep, [rep, i]);
+  });
+  for (const group of duplicates.values()) {
+    issues.push({
+      code: "duplicateVertex",
+      severity: "warning",
+      message: `Vertices ${group.join(", ")} are at the same position`,
+      vertices: group,
+    });
+  }
+
+  const used = new Array<boolean>(vertices.length).fill(false);
+  const invalidUsers = new Map<number, number[]>();
+  const loops = data.polygons.map((polygon, p): number[] | null => {
+    const indices = polygon?.vertexIndices;
+    if (typeof polygon?.color !== "string" || !Array.isArray(indices)) {
+      issues.push({
+        code: "invalidPolygon",
+        severity: "error",
+        message: `Polygon ${p} must have "color" and "vertexIndices"`,
+        polygons: [p],
+      });
+      return null;
+    }
+    const outOfRange = indices.filter((i) => !Number.isInteger(i) || i < 0 || i >= vertices.length);
+    if (outOfRange.length > 0) {
+      issues.push({
+        code: "indexOutOfRange",
+        severity: "error",
+        message: `Polygon ${p} has vertex indices outside 0..${vertices.length - 1}: ${outOfRange.join(", ")}`,
+        polygons: [p],
+      });
+      return null;
+    }
+    for (const i of indices) used[i] = true;
+    const invalid = indices.filter((i) => !valid[i]);
+    if (invalid.length > 0) {
+      for (const i of invalid) {
+        const users = invalidUsers.get(i);
+        if (!users) invalidUsers.set(i, [p]);
+        else if (users[users.length - 1] !== p) users.push(p);
+      }
+      return null;
+    }
+
+    const loop = removeZeroLengthEdges(indices.map((i) => weld[i]));
+    if (loop.length < indices.length) {
+      issues.push({
+        code: "zeroLengthEdge",
+        severity: "warning",
+        message: `Polygon ${p} has consecutive vertices at the same position`,
+        polygons: [p],
+        vertices: [...indices],
+      });
+    }
+    // Two-vertex polygons are lines
+    if (indices.length === 2 && loop.length === 2) return loop;
+    if (loop.length < 3 || new Set(loop).size < 3) {
+      issues.push({
+        code: "degeneratePolygon",
+        severity: "warning",
+        message: `Polygon ${p} has fewer than three distinct vertices`,
+        polygons: [p],
+        vertices: [...indices],
+      });
+      return null;
+    }
+
+    const points = loop.map((i) => vertices[i]);
+    const normal = newellNormal(points);
+    const center = points.reduce((sum, v) => sum.add(v), Vec3.zero()).scale(1 / points.length);
+    const size = Math.max(...points.map((v) => Vec3.distance(v, center)));
+    if (normal.length() / 2 <= DEGENERATE_AREA_RATIO * size * size) {
+      issues.push({
+        code: "degeneratePolygon",
+        severity: "warning",
+        message: `Polygon ${p} has no area (its vertices are collinear)`,
+        polygons: [p],
+        vertices: [...indices],
+      });
+      return null;
+    }
+    if (points.length > 3) {
+      const unit = normal.normalize();
+      const offset = Math.max(...points.map((v) => Math.abs(unit.dot(v.sub(center)))));
+      if (offset > planarity * size) {
+        issues.push({
+          code: "nonPlanarPolygon",
+          severity: "warning",
+          message: `Polygon ${p} is not planar (a vertex is ${offset.toPrecision(3)} off its plane)`,
+          polygons: [p],
+          vertices: [...indices],
+        });
+      }
+    }
+    return loop;
+  });
+
+  valid.forEach((ok, i) => {
+    if (ok) return;
+    const users = invalidUsers.get(i);
+    issues.push({
+      code: "invalidVertex",
+      severity: "error",
+      message: `Vertex ${i} has a non-finite coordinate${users ? ` (used by polygons ${users.join(", ")})` : ""}`,
+      polygons: users,
+      vertices: [i],
+    });
+  });
+
+  const flip = orientPolygons(loops, vertices, issues);
+
+  const unused = used.flatMap((u, i) => (u ? [] : [i]));
+  if (unused.length > 0) {
+    issues.push({
+      code: "unusedVertex",
+      severity: "info",
+      message: `${unused.length === 1 ? "1 vertex is" : `${unused.length} vertices are`} not used by any polygon`,
+      vertices: unused,
+    });
+  }
+
+  return { issues, weld, loops, flip };
+}
+
+/**
+ * Map every valid vertex to the first vertex within `distance` of it, using a
+ * grid of `distance`-sized cells so only neighbouring cells are compared.
+ * Invalid vertices map to -1.
+ */
+function weldVertices(vertices: readonly Vec3[], valid: readonly boolean[], distance: number): number[] {
+  const cells = new Map<string, number[]>();
+  const cellSize = distance > 0 ? distance : 1;
+  const maxSq = distance * distance;
+  return vertices.map((v, i) => {
+    if (!valid[i]) return -1;
+    const cx = Math.floor(v.x / cellSize);
+    const cy = Math.floor(v.y / cellSize);
+    const cz = Math.floor(v.z / cellSize);
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dz = -1; dz <= 1; dz++) {
+          for (const j of cells.get(`${cx + dx},${cy + dy},${cz + dz}`) ?? []) {
+            if (Vec3.distanceSq(v, vertices[j]) <= maxSq) return j;
+          }
+        }
+      }
+    }
+    const key = `${cx},${cy},${cz}`;
+    const cell = cells.get(key);
+    if (cell) cell.push(i);
+    else cells.set(key, [i]);
+    return i;
+  });
+}
+
+/** Drop consecutive repeats from a vertex loop (including last back to first). */
+function removeZeroLengthEdges(loop: number[]): number[] {
+  const out = loop.filter((index, k) => k === 0 || index !== loop[k - 1]);
+  while (out.length > 1 && out[out.length - 1] === out[0]) out.pop();
+  return out;
+}
+
+/** Polygon normal with length twice its area (Newell's method; robust for non-planar polygons). */
+function newellNormal(points: readonly Vec3[]): Vec3 {
+  let x = 0;
+  let y = 0;
+  let z = 0;
+  points.forEach((a, k) => {
+    const b = points[(k + 1) % points.length];
+    x += (a.y - b.y) * (a.z + b.z);
+    y += (a.z - b.z) * (a.x + b.x);
+    z += (a.x - b.x) * (a.y + b.y);
+  });
+  return new Vec3(x, y, z);
+}
+
+/**
+ * Report edge problems and decide which polygons to reverse. Polygons are
+ * walked breadth-first across manifold edges (shared by exactly two polygons),
+ * reversing each neighbour that runs along the shared edge in the same
+ * direction. A closed surface (every edge shared by two of its polygons) with
+ * negative signed volume faces inward and is reversed as a whole.
+ */
+function orientPolygons(loops: (number[] | null)[], vertices: readonly Vec3[], issues: MeshIssue[]): boolean[] {
+  const edges = new Map<string, EdgeUse[]>();
+  const edgeKeys = loops.map((loop, p) => {
+    if (!loop || loop.length < 3) return [];
+    return loop.map((u, k) => {
+      const v = loop[(k + 1) % loop.length];
+      const key = u < v ? `${u},${v}` : `${v},${u}`;
+      const uses = edges.get(key);
+      const use = { polygon: p, forward: u < v };
+      if (uses) uses.push(use);
+      else edges.set(key, [use]);
+      return key;
+    });
+  });
+
+  for (const [key, uses] of edges) {
+    const polygons = uses.map((use) => use.polygon);
+    const ends = key.split(",").map(Number);
+    if (uses.length > 2) {
+      issues.push({
+        code: "nonManifoldEdge",
+        severity: "warning",
+        message: `Edge ${ends[0]}-${ends[1]} is shared by ${uses.length} polygons (${polygons.join(", ")})`,
+        polygons,
+        vertices: ends,
+      });
+    } else if (uses.length === 2 && uses[0].forward === uses[1].forward) {
+      issues.push({
+        code: "inconsistentWinding",
+        severity: "warning",
+        message: `Polygons ${polygons[0]} and ${polygons[1]} run along edge ${ends[0]}-${ends[1]} in the same direction`,
+        polygons,
+        vertices: ends,
+      });
+    }
+  }
+
+  const flip = loops.map(() => false);
+  const visited = loops.map((loop) => !loop || loop.length < 3);
+  loops.forEach((_, seed) => {
+    if (visited[seed]) return;
+    visited[seed] = true;
+    const component = [seed];
+    let closed = true;
+    let orientable = true;
+    for (let k = 0; k < component.length; k++) {
+      const p = component[k];
+      for (const key of edgeKeys[p]) {
+        const uses = edges.get(key)!;
+        if (uses.length !== 2) {
+          closed = false;
+          continue;
+        }
+        const self = uses[0].polygon === p ? uses[0] : uses[1];
+        const other = uses[0].polygon === p ? uses[1] : uses[0];
+        if (other.polygon === p) continue;
+        // Neighbours must run along the shared edge in opposite directions
+        const forward = self.forward !== flip[p];
+        const otherFlip = other.forward === forward;
+        if (!visited[other.polygon]) {
+          visited[other.polygon] = true;
+          flip[other.polygon] = otherFlip;
+          component.push(other.polygon);
+        } else if (flip[other.polygon] !== otherFlip) {
+          orientable = false;
+        }
+      }
+    }
+    if (!closed || !orientable) return;
+
+    let volume = 0;
+    for (const p of component) {
+      const loop = loops[p]!;
+      const ordered = flip[p] ? [loop[0], ...loop.slice(1).reverse()] : loop;
+      const origin = vertices[ordered[0]];
+      for (let i = 1; i + 1 < ordered.length; i++) {
+        volume += origin.dot(vertices[ordered[i]].cross(vertices[ordered[i + 1]]));
+      }
+    }
+    if (volume >= 0) return;
+    if (component.every((p) => !flip[p])) {
+      const polygons = [...component].sort((a, b) => a - b);
+      issues.push({
+        code: "invertedWinding",
+        severity: "warning",
+        message: `Closed surface of ${component.length} polygons faces inward (from polygon ${polygons[0]})`,
+        polygons,
+      });
+    }
+    for (const p of component) flip[p] = !flip[p];
+  });
+  return flip;
+}
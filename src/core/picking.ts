@@ -0,0 +1,269 @@
+import { Vec3 } from "../math/vec3";
+import { Mat4 } from "../math/mat4";
+import { clipToNdc, clipToScreen, Ray, rayFromScreen, Viewport } from "../math/projection";
+import { clipSegmentParams, isClipPointInside, lerpClip } from "../math/clipping";
+import { Frustum } from "../math/frustum";
+import { BoundingSphere } from "../math/boundingSphere";
+import { Scene } from "./Scene";
+import { Object3D } from "./Object3D";
+import { transformMeshVerticesToClipSpace } from "./renderHelpers";
+
+/** Determinant below which a ray counts as parallel to a triangle. */
+const PARALLEL_EPSILON = 1e-12;
+
+/** A surface hit under the cursor. */
+export interface PickResult {
+  object: Object3D;
+  /** Index into object.mesh.polygons. */
+  polygonIndex: number;
+  /** World-space hit point. */
+  point: Vec3;
+  /** World-space distance from the camera position to the hit point. */
+  distance: number;
+}
+
+/** A vertex or edge near the cursor (wireframe picking). */
+export interface WireframePickResult extends PickResult {
+  kind: "vertex" | "edge";
+  /** The picked mesh vertex index, or the edge's two vertex indices. */
+  vertexIndices: number[];
+  /** Distance in pixels from the cursor to the projected vertex or edge. */
+  screenDistance: number;
+}
+
+export interface WireframePickOptions {
+  /** Max distance in pixels from the cursor. Default 4. */
+  tolerance?: number;
+  /** When false, do not pick vertices. Default true. */
+  vertices?: boolean;
+  /** When false, do not pick edges. Default true. */
+  edges?: boolean;
+}
+
+/**
+ * Pick the nearest polygon under a screen point (pixels, origin top-left).
+ *
+ * Casts a ray from the camera through the point and intersects it with every
+ * polygon (triangulated as a fan) of every object whose world bounding sphere
+ * the ray passes through. Polygons are hit from both sides; hits outside the
+ * view volume (e.g. beyond the far plane) are ignored.
+ * Returns null when nothing is under the point.
+ */
+export function pickPolygon(
+  scene: Scene,
+  x: number,
+  y: number,
+  viewport: Viewport,
+): PickResult | null {
+  const camera = scene.camera;
+  const viewProj = getViewProjection(scene, viewport);
+  const ray = rayFromScreen(x, y, viewProj, viewport);
+  if (!ray) return null;
+  const frustum = Frustum.fromMatrix(viewProj);
+
+  let best: PickResult | null = null;
+  let bestT = Infinity;
+
+  for (const object of scene.getAllObjects()) {
+    const mesh = object.mesh;
+    const sphere = object.getWorldBoundingSphere();
+    if (!mesh || !sphere || !rayHitsSphere(ray, sphere)) continue;
+
+    const world = object.getWorldMatrix();
+    const vertices = mesh.vertices.map((v) => world.transformPoint(v));
+
+    mesh.polygons.forEach((polygon, polygonIndex) => {
+      const indices = polygon.vertexIndices;
+      for (let k = 1; k + 1 < indices.length; k++) {
+        const t = intersectRayTriangle(
+          ray,
+          vertices[indices[0]],
+          vertices[indices[k]],
+          vertices[indices[k + 1]],
+        );
+        if (t === null || t >= bestT) continue;
+
+        const point = ray.origin.add(ray.direction.scale(t));
+        if (!frustum.containsPoint(point)) continue;
+        bestT = t;
+        best = {
+          object,
+          polygonIndex,
+          point,
+          distance: point.sub(camera.position).length(),
+        };
+      }
+    });
+  }
+
+  return best;
+}
+
+/**
+ * Pick the projected vertex or edge closest to a screen point, within a pixel
+ * tolerance. Suited to wireframes, where there are no surfaces to hit.
+ *
+ * Edges are clipped against the frustum first, so only visible parts count.
+ * Vertices win over edges within the tolerance (they are the more specific
+ * target); otherwise the smallest screen distance wins, then the nearest depth.
+ * The hit point is the world-space point on the edge under the cursor
+ * (perspective-correct), or the vertex itself.
+ */
+export function pickWireframe(
+  scene: Scene,
+  x: number,
+  y: number,
+  viewport: Viewport,
+  options?: WireframePickOptions,
+): WireframePickResult | null {
+  const tolerance = options?.tolerance ?? 4;
+  const pickVertices = options?.vertices ?? true;
+  const pickEdges = options?.edges ?? true;
+  const camera = scene.camera;
+  const viewProj = getViewProjection(scene, viewport);
+  const frustum = Frustum.fromMatrix(viewProj);
+
+  let best: WireframePickResult | null = null;
+  let bestDepth = Infinity;
+  const consider = (candidate: WireframePickResult, depth: number) => {
+    if (candidate.screenDistance > tolerance) return;
+    if (best) {
+      if (best.kind === "vertex" && candidate.kind === "edge") return;
+      const sameKind = best.kind === candidate.kind;
+      if (
+        sameKind &&
+        (candidate.screenDistance > best.screenDistance ||
+          (candidate.screenDistance === best.screenDistance && depth >= bestDepth))
+      ) {
+        return;
+      }
+    }
+    best = candidate;
+    bestDepth = depth;
+  };
+
+  for (const object of scene.getAllObjects()) {
+    const mesh = object.mesh;
+    const sphere = object.getWorldBoundingSphere();
+    if (!mesh || !sphere || !frustum.intersectsSphere(sphere.center, sphere.radius)) continue;
+
+    const world = object.getWorldMatrix();
+    const clipVertices = transformMeshVerticesToClipSpace(mesh, viewProj.multiply(world));
+    const worldVertex = (i: number) => world.transformPoint(mesh.vertices[i]);
+
+    mesh.polygons.forEach((polygon, polygonIndex) => {
+      const indices = polygon.vertexIndices;
+
+      if (pickVertices) {
+        for (const index of indices) {
+          const clip = clipVertices[index];
+          if (!clip || !isClipPointInside(clip)) continue;
+          const screen = clipToScreen(clip, viewport);
+          const point = worldVertex(index);
+          consider(
+            {
+              object,
+              polygonIndex,
+              point,
+              distance: point.sub(camera.position).length(),
+              kind: "vertex",
+              vertexIndices: [index],
+              screenDistance: Math.hypot(screen.x - x, screen.y - y),
+            },
+            clipToNdc(clip).z,
+          );
+        }
+      }
+
+      if (!pickEdges || indices.length < 2) return;
+      // A two-index polygon is a single line; don't close it back onto itself.
+      const edgeCount = indices.length === 2 ? 1 : indices.length;
+      for (let i = 0; i < edgeCount; i++) {
+        const iA = indices[i];
+        const iB = indices[(i + 1) % indices.length];
+        const a = clipVertices[iA];
+        const b = clipVertices[iB];
+        if (!a || !b) continue;
+
+        const range = clipSegmentParams(a, b);
+        if (!range) continue;
+        const [t0, t1] = range;
+        const clipA = lerpClip(a, b, t0);
+        const clipB = lerpClip(a, b, t1);
+        const sA = clipToScreen(clipA, viewport);
+        const sB = clipToScreen(clipB, viewport);
+
+        // Closest point on the screen segment, then back to the clip-space parameter
+        // (screen-space interpolation is linear in 1/w, not in clip space).
+        const dx = sB.x - sA.x;
+        const dy = sB.y - sA.y;
+        const lenSq = dx * dx + dy * dy;
+        const s = lenSq > 0 ? Math.min(1, Math.max(0, ((x - sA.x) * dx + (y - sA.y) * dy) / lenSq)) : 0;
+        const denominator = (1 - s) * clipB.w + s * clipA.w;
+        const t = denominator !== 0 ? (s * clipA.w) / denominator : s;
+        const u = t0 + (t1 - t0) * t;
+
+        const pA = worldVertex(iA);
+        const point = pA.add(worldVertex(iB).sub(pA).scale(u));
+        consider(
+          {
+            object,
+            polygonIndex,
+            point,
+            distance: point.sub(camera.position).length(),
+            kind: "edge",
+            vertexIndices: [iA, iB],
+            screenDistance: Math.hypot(sA.x + dx * s - x, sA.y + dy * s - y),
+          },
+          clipToNdc(lerpClip(a, b, u)).z,
+        );
+      }
+    });
+  }
+
+  return best;
+}
+
+function getViewProjection(scene: Scene, viewport: Viewport): Mat4 {
+  const camera = scene.camera;
+  return camera
+    .getProjectionMatrix(viewport.width / viewport.height)
+    .multiply(camera.getViewMatrix());
+}
+
+/**
+ * Whether the ray passes through the sphere (ahead of or around its origin).
+ */
+function rayHitsSphere(ray: Ray, sphere: BoundingSphere): boolean {
+  const toCenter = sphere.center.sub(ray.origin);
+  const along = toCenter.dot(ray.direction);
+  const distSq = toCenter.lengthSq() - along * along;
+  const r = sphere.radius;
+  if (distSq > r * r) return false;
+  // Reject spheres entirely behind the origin
+  return along >= 0 || toCenter.lengthSq() <= r * r;
+}
+
+/**
+ * Möller–Trumbore ray/triangle intersection (two-sided).
+ * Returns the distance along the ray, or null if there is no hit in front of the origin.
+ */
+function intersectRayTriangle(ray: Ray, a: Vec3, b: Vec3, c: Vec3): number | null {
+  const edge1 = b.sub(a);
+  const edge2 = c.sub(a);
+  const p = ray.direction.cross(edge2);
+  const det = edge1.dot(p);
+  if (Math.abs(det) < PARALLEL_EPSILON) return null;
+
+  const invDet = 1 / det;
+  const s = ray.origin.sub(a);
+  const u = s.dot(p) * invDet;
+  if (u < 0 || u > 1) return null;
+
+  const q = s.cross(edge1);
+  const v = ray.direction.dot(q) * invDet;
+  if (v < 0 || u + v > 1) return null;
+
+  const t = edge2.dot(q) * invDet;
+  return t >= 0 ? t : null;
+}
@@ -0,0 +1,60 @@
+import type { Viewport } from "../math/projection";
+import type { RenderTarget } from "./RenderTarget";
+import { Scene } from "./Scene";
+import {
+  projectSceneToPolygonWireframe,
+  ProjectSceneOptions,
+  ProjectSceneResult,
+} from "./renderHelpers";
+
+export interface RenderFrameOptions extends ProjectSceneOptions {
+  /** Background color the target is cleared to. Default "#000000". */
+  clearColor?: string;
+  /** Line width for polygon outlines (unless a batch sets its own). Default 1. */
+  lineWidth?: number;
+  /** Color for debug normal segments. Default "#ff69b4". */
+  debugNormalColor?: string;
+}
+
+/**
+ * Render one frame of the scene into any render target:
+ * clear, project the scene from its camera (viewport = target size),
+ * then draw batches in order (fill, then outline) and debug normals on top.
+ * Returns the projected result (e.g. for SVG export of the same frame).
+ */
+export function renderFrame(
+  target: RenderTarget,
+  scene: Scene,
+  options?: RenderFrameOptions,
+): ProjectSceneResult {
+  const viewport: Viewport = {
+    width: target.getWidth(),
+    height: target.getHeight(),
+  };
+  const camera = scene.camera;
+  const view = camera.getViewMatrix();
+  const projection = camera.getProjectionMatrix(viewport.width / viewport.height);
+  const viewProj = projection.multiply(view);
+
+  const result = projectSceneToPolygonWireframe(scene, viewProj, viewport, options);
+
+  target.clear(options?.clearColor ?? "#000000");
+  const lineWidth = options?.lineWidth ?? 1;
+  for (const batch of result.batches) {
+    if (batch.fillPoints) {
+      target.fillPolygon(batch.fillPoints, batch.fillColor);
+    }
+    if (batch.segments.length > 0) {
+      target.drawLines(batch.segments, batch.color, (batch.lineWidth ?? lineWidth) * (batch.lineWidthScale ?? 1));
+    }
+  }
+  if (result.debugNormalSegments.length > 0) {
+    target.drawLines(
+      result.debugNormalSegments,
+      options?.debugNormalColor ?? "#ff69b4",
+      1,
+    );
+  }
+
+  return result;
+}
@@ -1,9 +1,18 @@
 import { Vec3 } from "../math/vec3";
+import { degToRad } from "../math/utils";
 import { Vec4 } from "../math/vec4";
 import { Mat4 } from "../math/mat4";
-import { projectPoint, Viewport } from "../math/projection";
-import { isSphereInFrustum } from "../math/frustum";
+import { clipToNdc, clipToScreen, ndcToScreen, Viewport } from "../math/projection";
+import { Frustum } from "../math/frustum";
+import { clipPolygon, clipSegment } from "../math/clipping";
 import { Scene } from "./Scene";
+import { Object3D } from "./Object3D";
+import type { Mesh } from "./Mesh";
+import { CullingResult, CullingStats, isObjectInFrustum, ObjectBvh } from "./ObjectBvh";
+import { Rasterizer, RasterPoint } from "./Rasterizer";
+import { shadeColor } from "./color";
+import { buildOccluder, NdcSegment, Occluder, removeHiddenParts } from "./hiddenLine";
+import { DepthCue, DepthCueOptions } from "./depthCue";
 import type { Polygon } from "../io/meshLoader";
 
 /** Geometry that has vertices and polygons (Mesh or MeshData). */
@@ -16,6 +25,14 @@ export interface MeshLike {
 export interface ColoredSegmentBatch {
   color: string;
   segments: Array<[number, number, number, number]>;
+  /** Screen-space outline of the clipped polygon to fill (only set when filling is enabled). */
+  fillPoints?: Array<[number, number]>;
+  /** Fill color: the polygon color, shaded when flat shading is enabled. */
+  fillColor?: string;
+  /** Line width for this batch's segments; defaults to the renderer's line width. */
+  lineWidth?: number;
+  /** Multiplier on the line width (depth cueing narrows far lines). Default 1. */
+  lineWidthScale?: number;
 }
 
 /** A drawable polygon batch with depth for Painter's algorithm (sort back-to-front). */
@@ -28,33 +45,119 @@ export interface DrawablePolygonBatch extends ColoredSegmentBatch {
 export interface ProjectSceneResult {
   batches: ColoredSegmentBatch[];
   debugNormalSegments: Array<[number, number, number, number]>;
+  /** How many objects (and hierarchy nodes) were tested and culled. */
+  cullingStats: CullingStats;
+}
+
+/** A polygon whose segments still need hidden-line removal before they become a batch. */
+interface PendingPolygon {
+  color: string;
+  depth: number;
+  segments: NdcSegment[];
+  occluder: Occluder | null;
+  fillPoints?: Array<[number, number]>;
+  fillColor?: string;
+  lineWidth?: number;
+}
+
+/**
+ * How an edge shared by polygons of different colors is colored when each edge
+ * is drawn once (`uniqueEdges`). Only adjacent polygons that are drawn (not
+ * back-face culled) take part:
+ * - "first": the color of the adjacent polygon that comes first in the mesh
+ * - "frontFacing": the color of the first adjacent polygon facing the camera,
+ *   else the first one
+ * - a function receiving the adjacent polygons' colors in mesh order
+ */
+export type EdgeColorRule = "first" | "frontFacing" | ((colors: string[]) => string);
+
+/**
+ * Feature edge classes, from the camera-space polygon normals of the current frame:
+ * - "silhouette": between a polygon facing the camera and one facing away
+ * - "crease": the angle between the adjacent polygons' normals exceeds the crease angle
+ * - "boundary": the edge belongs to only one polygon (open mesh border or lone line)
+ * An edge that is both a silhouette and a crease counts as a silhouette.
+ */
+export type EdgeClass = "silhouette" | "crease" | "boundary";
+
+/** Stroke of one feature edge class. */
+export interface EdgeStyle {
+  /** Defaults to the outline color, else the color from the edge color rule. */
+  color?: string;
+  /** Defaults to the renderer's line width. */
+  lineWidth?: number;
+}
+
+/**
+ * Feature-edge mode: draw only the edge classes given a style (e.g. `{ silhouette: {} }`
+ * draws outlines only). Each edge is drawn once, as with `uniqueEdges`.
+ */
+export interface FeatureEdgeOptions {
+  silhouette?: EdgeStyle;
+  crease?: EdgeStyle;
+  boundary?: EdgeStyle;
+  /** Minimum angle between adjacent polygon normals for a crease, in radians. Default 30°. */
+  creaseAngle?: number;
+}
+
+/** Visible parts of a polygon's edges that share one color and line width. */
+interface EdgeGroup {
+  color: string;
+  lineWidth?: number;
+  segments: NdcSegment[];
+}
+
+/** How collectUniqueEdgeNdcSegments picks and styles edges. */
+interface EdgeSelection {
+  colorRule: EdgeColorRule;
+  /** Replaces the rule's color (e.g. a uniform outline color). */
+  color?: string;
+  /** When set, only the styled feature edge classes are kept. */
+  featureEdges?: FeatureEdgeOptions;
+}
+
+/** Camera-space normal of a polygon and whether it faces away from the viewer. */
+interface PolygonFacing {
+  normal: Vec3 | null;
+  backFacing: boolean;
 }
 
 /** Length of debug normal line in camera-space units. */
 const DEBUG_NORMAL_LENGTH = 0.4;
 
+/** Default FeatureEdgeOptions.creaseAngle. */
+const DEFAULT_CREASE_ANGLE = degToRad(30);
+
 /**
- * Project all mesh vertices to screen space using the MVP matrix.
- * Returns an array where each element is either a Vec3 (screen coordinates)
- * or null if the vertex is behind the camera or invalid.
+ * Transform all mesh vertices to homogeneous clip space using the MVP matrix.
+ * No perspective divide happens here, so edges can still be clipped against
+ * the frustum (see collectPolygonSegments).
  */
-export function projectMeshVertices(
+export function transformMeshVerticesToClipSpace(
   mesh: MeshLike,
   mvp: Mat4,
-  viewport: Viewport,
-): (Vec3 | null)[] {
-  const projected: (Vec3 | null)[] = [];
-
-  for (const vertex of mesh.vertices) {
-    const p = projectPoint(vertex, mvp, viewport);
-    if (p && !p.behind) {
-      projected.push(new Vec3(p.x, p.y, 0));
-    } else {
-      projected.push(null);
-    }
+): Vec4[] {
+  const out: Vec4[] = [];
+  for (const v of mesh.vertices) {
+    out.push(mvp.transformVec4(new Vec4(v.x, v.y, v.z, 1)));
   }
+  return out;
+}
 
-  return projected;
+/**
+ * Clip a clip-space segment against the frustum and map the visible part to screen.
+ * Returns null if the segment is entirely outside the view volume.
+ */
+export function clipSegmentToScreen(
+  a: Vec4,
+  b: Vec4,
+  viewport: Viewport,
+): [number, number, number, number] | null {
+  const clipped = clipSegment(a, b);
+  if (!clipped) return null;
+  const sA = clipToScreen(clipped[0], viewport);
+  const sB = clipToScreen(clipped[1], viewport);
+  return [sA.x, sA.y, sB.x, sB.y];
 }
 
 /**
@@ -129,32 +232,304 @@ function polygonCenter(
 }
 
 /**
- * Build wireframe segments for a single polygon from projected vertices.
- * Draws lines between consecutive vertex indices, then last back to first.
- * Returns the segments, or null if any polygon vertex is invalid or behind.
+ * Build wireframe segments for a single polygon from clip-space vertices, in NDC.
+ * Draws lines between consecutive vertex indices, then last back to first
+ * (a two-index polygon is a single line).
+ * Each edge is clipped against the view frustum in homogeneous clip space
+ * before the perspective divide, so partially visible polygons keep their
+ * visible parts. Edges entirely outside the frustum are omitted.
  */
-export function collectPolygonSegments(
-  projectedVertices: (Vec3 | null)[],
+export function collectPolygonNdcSegments(
+  clipVertices: Vec4[],
   polygon: Polygon,
-): Array<[number, number, number, number]> | null {
+): NdcSegment[] {
   const indices = polygon.vertexIndices;
   if (indices.length < 2) return [];
 
-  const segments: Array<[number, number, number, number]> = [];
+  const segments: NdcSegment[] = [];
+  // A two-index polygon is a single line; don't close it back onto itself.
+  const edgeCount = indices.length === 2 ? 1 : indices.length;
 
-  for (let i = 0; i < indices.length; i++) {
-    const idxA = indices[i];
-    const idxB = indices[(i + 1) % indices.length];
-    const vA = projectedVertices[idxA];
-    const vB = projectedVertices[idxB];
+  for (let i = 0; i < edgeCount; i++) {
+    const vA = clipVertices[indices[i]];
+    const vB = clipVertices[indices[(i + 1) % indices.length]];
+    if (!vA || !vB) continue;
 
-    if (!vA || !vB) return null;
-    segments.push([vA.x, vA.y, vB.x, vB.y]);
+    const clipped = clipSegment(vA, vB);
+    if (clipped) segments.push([clipToNdc(clipped[0]), clipToNdc(clipped[1])]);
   }
 
   return segments;
 }
 
+/**
+ * Build NDC segments for a mesh drawing each unique edge once (see Mesh.edges).
+ * Edges with no drawn adjacent polygon are skipped, and in feature-edge mode so
+ * are edges of unstyled classes. Each remaining edge is clipped once and assigned
+ * to one drawn adjacent polygon: the first front-facing one (so it is drawn after
+ * any fill behind it), else the first. Returns, per polygon index, the assigned
+ * segments grouped by color and line width.
+ */
+function collectUniqueEdgeNdcSegments(
+  mesh: Mesh,
+  clipVertices: Vec4[],
+  drawn: boolean[],
+  facing: PolygonFacing[],
+  selection: EdgeSelection,
+): EdgeGroup[][] {
+  const groups: EdgeGroup[][] = mesh.polygons.map(() => []);
+  const features = selection.featureEdges;
+  const creaseCos = Math.cos(features?.creaseAngle ?? DEFAULT_CREASE_ANGLE);
+
+  for (const edge of mesh.edges) {
+    const adjacent = edge.polygons.filter((i) => drawn[i]);
+    if (adjacent.length === 0) continue;
+
+    let style: EdgeStyle | undefined;
+    if (features) {
+      const edgeClass = classifyEdge(edge.polygons, facing, creaseCos);
+      style = edgeClass ? features[edgeClass] : undefined;
+      if (!style) continue;
+    }
+
+    const vA = clipVertices[edge.a];
+    const vB = clipVertices[edge.b];
+    if (!vA || !vB) continue;
+    const clipped = clipSegment(vA, vB);
+    if (!clipped) continue;
+
+    const owner = adjacent.find((i) => !facing[i].backFacing) ?? adjacent[0];
+    let color = style?.color ?? selection.color;
+    if (color === undefined) {
+      const rule = selection.colorRule;
+      if (rule === "first") {
+        color = mesh.polygons[adjacent[0]].color;
+      } else if (rule === "frontFacing") {
+        color = mesh.polygons[owner].color;
+      } else {
+        color = rule(adjacent.map((i) => mesh.polygons[i].color));
+      }
+    }
+    const lineWidth = style?.lineWidth;
+
+    const owned = groups[owner];
+    let group = owned.find((g) => g.color === color && g.lineWidth === lineWidth);
+    if (!group) {
+      group = { color, lineWidth, segments: [] };
+      owned.push(group);
+    }
+    group.segments.push([clipToNdc(clipped[0]), clipToNdc(clipped[1])]);
+  }
+  return groups;
+}
+
+/**
+ * Feature class of an edge from the facing of all its polygons (culled or not),
+ * or null for an ordinary edge between two smoothly joined polygons.
+ */
+function classifyEdge(polygons: number[], facing: PolygonFacing[], creaseCos: number): EdgeClass | null {
+  if (polygons.length === 1) return "boundary";
+
+  const first = facing[polygons[0]];
+  let crease = false;
+  for (let k = 1; k < polygons.length; k++) {
+    const other = facing[polygons[k]];
+    if (other.backFacing !== first.backFacing) return "silhouette";
+    if (first.normal && other.normal && first.normal.dot(other.normal) < creaseCos) crease = true;
+  }
+  return crease ? "crease" : null;
+}
+
+/**
+ * Map an NDC segment to screen pixels.
+ */
+function ndcSegmentToScreen(
+  segment: NdcSegment,
+  viewport: Viewport,
+): [number, number, number, number] {
+  const a = ndcToScreen(segment[0].x, segment[0].y, viewport);
+  const b = ndcToScreen(segment[1].x, segment[1].y, viewport);
+  return [a.x, a.y, b.x, b.y];
+}
+
+/**
+ * Build screen-space wireframe segments for a single polygon from clip-space vertices.
+ * See collectPolygonNdcSegments for the clipping rules.
+ */
+export function collectPolygonSegments(
+  clipVertices: Vec4[],
+  polygon: Polygon,
+  viewport: Viewport,
+): Array<[number, number, number, number]> {
+  return collectPolygonNdcSegments(clipVertices, polygon).map((segment) =>
+    ndcSegmentToScreen(segment, viewport),
+  );
+}
+
+/**
+ * Build the screen-space fill outline of a polygon from clip-space vertices.
+ * The polygon is clipped against the view frustum first (assumes convex polygons).
+ * Returns an empty array if the polygon is entirely outside.
+ */
+export function collectPolygonFillPoints(
+  clipVertices: Vec4[],
+  polygon: Polygon,
+  viewport: Viewport,
+): Array<[number, number]> {
+  if (polygon.vertexIndices.length < 3) return [];
+  const clipped = clipPolygon(polygon.vertexIndices.map((i) => clipVertices[i]));
+  if (clipped.length < 3) return [];
+  return clipped.map((v) => {
+    const p = clipToScreen(v, viewport);
+    return [p.x, p.y];
+  });
+}
+
+/**
+ * Objects of the scene that pass frustum culling. With a spatial index the index is
+ * synced with the scene and queried; otherwise every object with a mesh is tested.
+ */
+function cullSceneObjects(scene: Scene, frustum: Frustum, spatialIndex?: ObjectBvh): CullingResult {
+  if (spatialIndex) {
+    spatialIndex.sync(scene);
+    return spatialIndex.query(frustum);
+  }
+
+  const objects: Object3D[] = [];
+  let tested = 0;
+  for (const object of scene.getAllObjects()) {
+    if (!object.mesh) continue;
+    tested++;
+    if (isObjectInFrustum(object, frustum)) objects.push(object);
+  }
+  return {
+    objects,
+    stats: {
+      nodesTested: 0,
+      nodesCulled: 0,
+      objectsTested: tested,
+      objectsCulled: tested - objects.length,
+      objectsVisible: objects.length,
+    },
+  };
+}
+
+/**
+ * Convert an NDC point to a rasterizer point: screen pixels plus depth
+ * mapped from NDC z [-1, 1] to [0, 1].
+ */
+function ndcToRasterPoint(ndc: Vec3, viewport: Viewport): RasterPoint {
+  const screen = ndcToScreen(ndc.x, ndc.y, viewport);
+  return [screen.x, screen.y, (ndc.z + 1) * 0.5];
+}
+
+/** Depth-tested lines collected by rasterizeScene, drawn after all polygons. */
+interface RasterLineBatch {
+  color: string;
+  lineWidth: number;
+  segments: Array<[RasterPoint, RasterPoint]>;
+}
+
+/**
+ * Append NDC segments as one rasterizer line batch (skipped when empty),
+ * or one batch per fog level when depth cueing.
+ */
+function addRasterLines(
+  lines: RasterLineBatch[],
+  color: string,
+  lineWidth: number,
+  segments: NdcSegment[],
+  viewport: Viewport,
+  depthCue: DepthCue | null,
+): void {
+  if (segments.length === 0) return;
+  const toRaster = (list: NdcSegment[]) =>
+    list.map(([a, b]): [RasterPoint, RasterPoint] => [ndcToRasterPoint(a, viewport), ndcToRasterPoint(b, viewport)]);
+  if (!depthCue) {
+    lines.push({ color, lineWidth, segments: toRaster(segments) });
+    return;
+  }
+  for (const group of depthCue.groupSegments(segments, viewport)) {
+    lines.push({
+      color: depthCue.colorAt(color, group.fog),
+      lineWidth: lineWidth * depthCue.widthScaleAt(group.fog),
+      segments: toRaster(group.segments),
+    });
+  }
+}
+
+/**
+ * Push a polygon's NDC segments as screen-space batches: one batch, or one per
+ * fog level when depth cueing (fill only on the first; a fill-only batch when
+ * there are no segments). Nothing is pushed without segments or fill.
+ */
+function pushPolygonBatches(
+  batches: DrawablePolygonBatch[],
+  batch: Omit<DrawablePolygonBatch, "segments">,
+  segments: NdcSegment[],
+  viewport: Viewport,
+  depthCue: DepthCue | null,
+): void {
+  if (segments.length === 0 && !batch.fillPoints) return;
+  if (!depthCue || segments.length === 0) {
+    batches.push({ ...batch, segments: segments.map((segment) => ndcSegmentToScreen(segment, viewport)) });
+    return;
+  }
+  depthCue.groupSegments(segments, viewport).forEach((group, k) => {
+    batches.push({
+      ...batch,
+      color: depthCue.colorAt(batch.color, group.fog),
+      lineWidthScale: depthCue.widthScaleAt(group.fog),
+      segments: group.segments.map((segment) => ndcSegmentToScreen(segment, viewport)),
+      fillPoints: k === 0 ? batch.fillPoints : undefined,
+      fillColor: k === 0 ? batch.fillColor : undefined,
+    });
+  });
+}
+
+/** Directional light used for flat shading of filled polygons. */
+export interface FlatShadingOptions {
+  /** World-space direction the light travels in (e.g. (0, -1, 0) shines straight down). */
+  lightDirection: Vec3;
+  /** Minimum brightness for polygons facing away from the light, in [0, 1]. Default 0.2. */
+  ambient?: number;
+}
+
+/**
+ * Normal and facing of a polygon from its camera-space vertices.
+ */
+function polygonFacing(polygon: Polygon, cameraSpaceVertices: Vec3[], orthographic: boolean): PolygonFacing {
+  const normal = polygonNormal(polygon.vertexIndices, cameraSpaceVertices);
+  const backFacing =
+    normal !== null &&
+    isBackFacing(normal, cameraSpaceVertices[polygon.vertexIndices[0]], orthographic);
+  return { normal, backFacing };
+}
+
+/**
+ * Whether a polygon faces away from the camera, given its camera-space normal
+ * and any camera-space point on it. With perspective the view ray runs from the
+ * eye (origin) to the point; with orthographic projection it is always -Z.
+ */
+function isBackFacing(normal: Vec3, pointOnPolygon: Vec3, orthographic: boolean): boolean {
+  return orthographic ? normal.z < 0 : normal.dot(pointOnPolygon) > 0;
+}
+
+/**
+ * Brightness factor for a polygon under a directional light (Lambert, two-sided).
+ * The normal is flipped towards the viewer so back faces seen from behind are lit too.
+ */
+function flatShadeFactor(
+  normal: Vec3,
+  backFacing: boolean,
+  lightDirCamera: Vec3,
+  ambient: number,
+): number {
+  const facing = backFacing ? normal.negate() : normal;
+  const diffuse = Math.max(0, -facing.dot(lightDirCamera));
+  return ambient + (1 - ambient) * diffuse;
+}
+
 export interface ProjectSceneOptions {
   /** When true, also return debug normal segments (small pink lines per polygon). */
   debugShowDirection?: boolean;
@@ -162,13 +537,51 @@ export interface ProjectSceneOptions {
   applyPaintersAlgorithm?: boolean;
   /** When true, skip polygons facing away from the camera (back-face culling). */
   applyBackFaceCulling?: boolean;
+  /**
+   * When true, split every edge against all drawn polygons and keep only the parts
+   * that are not behind another polygon (hidden-line removal).
+   */
+  applyHiddenLineRemoval?: boolean;
+  /**
+   * When true, return each polygon's clipped screen-space outline for filling.
+   * Filled batches are always depth-sorted (farthest first) so nearer polygons cover farther ones.
+   */
+  fillPolygons?: boolean;
+  /** When false (and filling), return no outline segments. Default true. */
+  drawOutlines?: boolean;
+  /** Outline color for filled polygons; defaults to the polygon color. */
+  outlineColor?: string;
+  /** When set (and filling), shade fill colors by a directional light. */
+  flatShading?: FlatShadingOptions;
+  /** When set, cull with this hierarchy instead of testing every object (synced each call). */
+  spatialIndex?: ObjectBvh;
+  /**
+   * When true, draw each mesh edge once instead of once per adjacent polygon
+   * (shared edges are not stroked twice). Default false.
+   */
+  uniqueEdges?: boolean;
+  /** Color of edges between differently colored polygons (with uniqueEdges). Default "frontFacing". */
+  edgeColorRule?: EdgeColorRule;
+  /** When set, draw only silhouette, crease and/or boundary edges, each in its own style. */
+  featureEdges?: FeatureEdgeOptions;
+  /** When set, fade lines (color or opacity, optionally width) toward a fog color by camera depth. */
+  depthCue?: DepthCueOptions;
 }
 
 /**
  * Project the whole scene to screen-space wireframe per polygon, with depth for Painter's algorithm.
  * Each object (after frustum culling) is rendered by polygon: for each polygon,
- * project its vertex indices; draw lines 1-2, 2-3, ..., n-1 (last back to first).
+ * take its vertex indices in clip space; draw lines 1-2, 2-3, ..., n-1 (last back to first),
+ * each clipped against the six frustum planes before projection.
  * Batches are sorted by depth (farthest first) so drawing order gives correct occlusion.
+ * With hidden-line removal, edges are additionally split against every drawn polygon
+ * (across all objects) and only their visible parts are returned.
+ * With `uniqueEdges`, shared edges are emitted once, in the batch of one adjacent
+ * polygon (an extra batch at the same depth when the edge color differs from it).
+ * With `featureEdges`, edges are classified per frame and only the selected
+ * classes are kept (batches carry the class line width).
+ * With `depthCue`, each polygon's edges are split into one batch per fog level,
+ * in the faded color and with a width scale.
  * Returns sorted batches and optional debug normal segments for drawing back-to-front.
  */
 export function projectSceneToPolygonWireframe(
@@ -183,67 +596,268 @@ export function projectSceneToPolygonWireframe(
   const view = camera.getViewMatrix();
   const aspect = viewport.width / viewport.height;
   const projection = camera.getProjectionMatrix(aspect);
+  const orthographic = camera.isOrthographic();
+  const frustum = Frustum.fromMatrix(viewProj);
+  const hiddenLine = options?.applyHiddenLineRemoval ?? false;
+  const pending: PendingPolygon[] = [];
+  const occluders: Occluder[] = [];
+  const fill = options?.fillPolygons ?? false;
+  const outlines = options?.drawOutlines ?? true;
+  const outlineColor = fill ? options?.outlineColor : undefined;
+  const shading = fill ? options?.flatShading : undefined;
+  const depthCue = options?.depthCue ? new DepthCue(options.depthCue, projection) : null;
+  let lightDirCamera: Vec3 | null = null;
+  if (shading) {
+    lightDirCamera = view.transformDirection(shading.lightDirection).normalize();
+  }
 
-  for (const object of scene.objects) {
-    const mesh = object.mesh;
-    const worldCenter = object.position;
-    const worldRadius =
-      mesh.boundingRadius *
-      Math.max(object.scale.x, object.scale.y, object.scale.z);
-
-    if (
-      !isSphereInFrustum(
-        worldCenter,
-        worldRadius,
-        view,
-        camera.fovYRad,
-        aspect,
-        camera.near,
-        camera.far,
-      )
-    ) {
-      continue;
-    }
-
-    const model = object.getModelMatrix();
+  const culling = cullSceneObjects(scene, frustum, options?.spatialIndex);
+  for (const object of culling.objects) {
+    const mesh = object.mesh!;
+    const model = object.getWorldMatrix();
     const viewModel = view.multiply(model);
     const mvp = viewProj.multiply(model);
     const cameraSpaceVertices = transformVerticesToCameraSpace(mesh, viewModel);
-    const projectedVertices = projectMeshVertices(mesh, mvp, viewport);
+    const clipVertices = transformMeshVerticesToClipSpace(mesh, mvp);
+    const facing = mesh.polygons.map((polygon) => polygonFacing(polygon, cameraSpaceVertices, orthographic));
+    // Back-face culling: skip polygons whose normal points away from the viewer
+    const drawn = facing.map((f) => !(options?.applyBackFaceCulling && f.backFacing));
+    const uniqueEdgeGroups =
+      outlines && (options?.uniqueEdges || options?.featureEdges)
+        ? collectUniqueEdgeNdcSegments(mesh, clipVertices, drawn, facing, {
+            colorRule: options.edgeColorRule ?? "frontFacing",
+            color: outlineColor,
+            featureEdges: options.featureEdges,
+          })
+        : null;
 
-    for (const polygon of mesh.polygons) {
-      const normal = polygonNormal(polygon.vertexIndices, cameraSpaceVertices);
-      if (options?.applyBackFaceCulling) {
-        // Back-face culling: in camera space camera looks down -Z, so front-facing = normal.z > 0
-        if (normal !== null && normal.z < 0) continue;
+    mesh.polygons.forEach((polygon, polygonIndex) => {
+      if (!drawn[polygonIndex]) return;
+      const { normal, backFacing } = facing[polygonIndex];
+
+      let fillPoints: Array<[number, number]> | undefined;
+      let fillColor: string | undefined;
+      if (fill) {
+        fillPoints = collectPolygonFillPoints(clipVertices, polygon, viewport);
+        if (fillPoints.length === 0) {
+          fillPoints = undefined;
+        } else {
+          fillColor = polygon.color;
+          if (shading && lightDirCamera && normal) {
+            const factor = flatShadeFactor(normal, backFacing, lightDirCamera, shading.ambient ?? 0.2);
+            fillColor = shadeColor(polygon.color, factor);
+          }
+        }
       }
 
-      const segments = collectPolygonSegments(projectedVertices, polygon);
-      if (segments !== null && segments.length > 0) {
-        const depth = polygonDepth(polygon.vertexIndices, cameraSpaceVertices);
-        batches.push({ color: polygon.color, segments, depth });
+      const color = outlineColor ?? polygon.color;
+      let groups: EdgeGroup[];
+      if (uniqueEdgeGroups) {
+        groups = uniqueEdgeGroups[polygonIndex];
+        if (groups.length === 0) groups = [{ color, segments: [] }];
+      } else {
+        const segments = outlines ? collectPolygonNdcSegments(clipVertices, polygon) : [];
+        groups = [{ color, segments }];
       }
 
+      const occluder = hiddenLine ? buildOccluder(clipVertices, polygon.vertexIndices) : null;
+      if (occluder) occluders.push(occluder);
+      const depth = polygonDepth(polygon.vertexIndices, cameraSpaceVertices);
+      // The fill goes with the first batch; further batches only add edges of another color.
+      groups.forEach((group, k) => {
+        const groupFillPoints = k === 0 ? fillPoints : undefined;
+        const groupFillColor = k === 0 ? fillColor : undefined;
+        if (group.segments.length === 0 && !groupFillPoints) return;
+        if (hiddenLine) {
+          pending.push({
+            color: group.color,
+            depth,
+            segments: group.segments,
+            occluder,
+            fillPoints: groupFillPoints,
+            fillColor: groupFillColor,
+            lineWidth: group.lineWidth,
+          });
+        } else {
+          pushPolygonBatches(
+            batches,
+            {
+              color: group.color,
+              depth,
+              fillPoints: groupFillPoints,
+              fillColor: groupFillColor,
+              lineWidth: group.lineWidth,
+            },
+            group.segments,
+            viewport,
+            depthCue,
+          );
+        }
+      });
+
       if (options?.debugShowDirection && normal) {
         const center = polygonCenter(polygon.vertexIndices, cameraSpaceVertices);
         const end = center.add(normal.scale(DEBUG_NORMAL_LENGTH));
-        const pStart = projectPoint(center, projection, viewport);
-        const pEnd = projectPoint(end, projection, viewport);
-        if (pStart && !pStart.behind && pEnd && !pEnd.behind) {
-          debugNormalSegments.push([
-            pStart.x,
-            pStart.y,
-            pEnd.x,
-            pEnd.y,
-          ]);
-        }
+        const segment = clipSegmentToScreen(
+          projection.transformVec4(new Vec4(center.x, center.y, center.z, 1)),
+          projection.transformVec4(new Vec4(end.x, end.y, end.z, 1)),
+          viewport,
+        );
+        if (segment) debugNormalSegments.push(segment);
       }
-    }
+    });
+  }
+
+  // Hidden-line removal needs every occluder in the scene, so it runs after collection.
+  for (const polygon of pending) {
+    const segments = polygon.segments.flatMap((segment) =>
+      removeHiddenParts(segment, occluders, polygon.occluder),
+    );
+    pushPolygonBatches(
+      batches,
+      {
+        color: polygon.color,
+        depth: polygon.depth,
+        fillPoints: polygon.fillPoints,
+        fillColor: polygon.fillColor,
+        lineWidth: polygon.lineWidth,
+      },
+      segments,
+      viewport,
+      depthCue,
+    );
   }
 
-  if (options?.applyPaintersAlgorithm) {
+  if (options?.applyPaintersAlgorithm || fill) {
     batches.sort((a, b) => a.depth - b.depth);
   }
 
-  return { batches, debugNormalSegments };
+  return { batches, debugNormalSegments, cullingStats: culling.stats };
+}
+
+export interface RasterizeSceneOptions {
+  /** When true, skip polygons facing away from the camera (back-face culling). */
+  applyBackFaceCulling?: boolean;
+  /** When true, fill polygons in their color (depth-tested per pixel). */
+  fillPolygons?: boolean;
+  /**
+   * When true (and not filling), write polygons into the depth buffer only,
+   * so lines behind surfaces are hidden (hidden-line rendering).
+   */
+  hideOccludedLines?: boolean;
+  /** When false, draw no polygon edges. Default true. */
+  drawLines?: boolean;
+  /** Edge color; defaults to the polygon color. */
+  lineColor?: string;
+  /** Edge width in pixels. Default 1. */
+  lineWidth?: number;
+  /** When set (and filling), shade fill colors by a directional light. */
+  flatShading?: FlatShadingOptions;
+  /** When set, cull with this hierarchy instead of testing every object (synced each call). */
+  spatialIndex?: ObjectBvh;
+  /** When true, draw each mesh edge once instead of once per adjacent polygon. Default false. */
+  uniqueEdges?: boolean;
+  /** Color of edges between differently colored polygons (with uniqueEdges). Default "frontFacing". */
+  edgeColorRule?: EdgeColorRule;
+  /** When set, draw only silhouette, crease and/or boundary edges, each in its own style. */
+  featureEdges?: FeatureEdgeOptions;
+  /** When set, fade lines (color or opacity, optionally width) toward a fog color by camera depth. */
+  depthCue?: DepthCueOptions;
+}
+
+/**
+ * Render the scene into a software rasterizer with per-pixel depth testing.
+ * All polygons are rasterized first (filled or depth-only), then all edges are
+ * drawn depth-tested on top, so occlusion is correct even for intersecting
+ * geometry where Painter's sorting fails. With `depthCue`, edges fade toward the
+ * fog by depth (color, or opacity through the rasterizer's alpha blending).
+ * The rasterizer is not cleared here.
+ * Returns the frustum culling counters for the pass.
+ */
+export function rasterizeScene(
+  scene: Scene,
+  viewProj: Mat4,
+  rasterizer: Rasterizer,
+  options?: RasterizeSceneOptions,
+): CullingStats {
+  const viewport: Viewport = {
+    width: rasterizer.getWidth(),
+    height: rasterizer.getHeight(),
+  };
+  const camera = scene.camera;
+  const view = camera.getViewMatrix();
+  const orthographic = camera.isOrthographic();
+  const frustum = Frustum.fromMatrix(viewProj);
+  const fill = options?.fillPolygons ?? false;
+  const depthOnly = !fill && (options?.hideOccludedLines ?? false);
+  const drawLines = options?.drawLines ?? true;
+  const lineWidth = options?.lineWidth ?? 1;
+  const perEdge = (options?.uniqueEdges ?? false) || options?.featureEdges !== undefined;
+  const shading = fill ? options?.flatShading : undefined;
+  const depthCue = options?.depthCue
+    ? new DepthCue(options.depthCue, camera.getProjectionMatrix(viewport.width / viewport.height))
+    : null;
+  let lightDirCamera: Vec3 | null = null;
+  if (shading) {
+    lightDirCamera = view.transformDirection(shading.lightDirection).normalize();
+  }
+
+  const lines: RasterLineBatch[] = [];
+
+  const culling = cullSceneObjects(scene, frustum, options?.spatialIndex);
+  for (const object of culling.objects) {
+    const mesh = object.mesh!;
+    const model = object.getWorldMatrix();
+    const viewModel = view.multiply(model);
+    const mvp = viewProj.multiply(model);
+    const cameraSpaceVertices = transformVerticesToCameraSpace(mesh, viewModel);
+    const clipVertices = transformMeshVerticesToClipSpace(mesh, mvp);
+    const facing = mesh.polygons.map((polygon) => polygonFacing(polygon, cameraSpaceVertices, orthographic));
+    // Back-face culling: skip polygons whose normal points away from the viewer
+    const drawn = facing.map((f) => !(options?.applyBackFaceCulling && f.backFacing));
+
+    mesh.polygons.forEach((polygon, polygonIndex) => {
+      if (!drawn[polygonIndex]) return;
+      const { normal, backFacing } = facing[polygonIndex];
+
+      if ((fill || depthOnly) && polygon.vertexIndices.length >= 3) {
+        const clipped = clipPolygon(polygon.vertexIndices.map((i) => clipVertices[i]));
+        if (clipped.length >= 3) {
+          let fillColor: string | null = null;
+          if (fill) {
+            fillColor = polygon.color;
+            if (shading && lightDirCamera && normal) {
+              const factor = flatShadeFactor(normal, backFacing, lightDirCamera, shading.ambient ?? 0.2);
+              fillColor = shadeColor(polygon.color, factor);
+            }
+          }
+          rasterizer.fillPolygon(
+            clipped.map((v) => ndcToRasterPoint(clipToNdc(v), viewport)),
+            fillColor,
+          );
+        }
+      }
+
+      if (drawLines && !perEdge) {
+        const segments = collectPolygonNdcSegments(clipVertices, polygon);
+        addRasterLines(lines, options?.lineColor ?? polygon.color, lineWidth, segments, viewport, depthCue);
+      }
+    });
+
+    if (drawLines && perEdge) {
+      const groups = collectUniqueEdgeNdcSegments(mesh, clipVertices, drawn, facing, {
+        colorRule: options?.edgeColorRule ?? "frontFacing",
+        color: options?.lineColor,
+        featureEdges: options?.featureEdges,
+      });
+      for (const group of groups.flat()) {
+        addRasterLines(lines, group.color, group.lineWidth ?? lineWidth, group.segments, viewport, depthCue);
+      }
+    }
+  }
+
+  for (const batch of lines) {
+    rasterizer.drawLines(batch.segments, batch.color, batch.lineWidth);
+  }
+  return culling.stats;
 }
@@ -1,8 +1,12 @@
 // Entry point for the 3D wireframe engine
-import { loadMesh } from "./io/meshLoader";
+import { loadMesh, MeshLoadMode } from "./io/meshLoader";
 import { Vec3 } from "./math/vec3";
-import { projectSceneToPolygonWireframe } from "./core/renderHelpers";
-import { Viewport } from "./math/projection";
+import { clipSegmentToScreen, FeatureEdgeOptions, rasterizeScene } from "./core/renderHelpers";
+import { renderFrame } from "./core/renderFrame";
+import { clipToScreen, Viewport } from "./math/projection";
+import { Vec4 } from "./math/vec4";
+import { Mat4 } from "./math/mat4";
+import { isClipPointInside } from "./math/clipping";
 import { degToRad } from "./math/utils";
 import { Canvas } from "./core/Canvas";
 import { Mesh } from "./core/Mesh";
@@ -10,7 +14,17 @@ import { Object3D } from "./core/Object3D";
 import { Scene } from "./core/Scene";
 import { Camera } from "./core/Camera";
 import { Quat } from "./math/quat";
-import { InputController } from "./core/Input";
+import { CameraController } from "./core/CameraController";
+import { FlyController } from "./core/FlyController";
+import { OrbitController } from "./core/OrbitController";
+import { ActionMap, DEFAULT_FLY_BINDINGS } from "./core/ActionMap";
+import { DomInputSource } from "./core/DomInputSource";
+import { Rasterizer } from "./core/Rasterizer";
+import { DepthCueOptions } from "./core/depthCue";
+import { ObjectBvh } from "./core/ObjectBvh";
+import { pickPolygon, pickWireframe, PickResult, WireframePickResult } from "./core/picking";
+import { AnimationMixer } from "./core/AnimationMixer";
+import { animationClipsFromJSON, AnimationJSON } from "./io/animationLoader";
 
 // Initialize canvas
 const canvas = new Canvas("canvas", 800, 600);
@@ -25,18 +39,52 @@ const fov = degToRad(60);
 const near = 0.1;
 const far = 100;
 
-// Simple fly camera state (Euler angles for control, stored as quaternion in Camera).
-let yaw = 0; // left/right
-let pitch = -degToRad(20); // slight downward tilt to start
-const cameraPosition = new Vec3(0, 4, 10);
 const camera = new Camera(
-  cameraPosition,
-  Quat.fromEuler(yaw, pitch, 0),
+  new Vec3(0, 4, 10),
+  Quat.fromEuler(0, -degToRad(20), 0), // slight downward tilt to start
   fov,
   near,
   far,
 );
-const input = new InputController();
+
+/**
+ * When true, clicking the canvas locks the pointer for mouse-look in fly mode
+ * (Escape releases it); otherwise drag with a mouse button held to look.
+ */
+const USE_POINTER_LOCK = false;
+
+// Camera controllers; press "c" to cycle fly → orbit → arcball.
+const flyController = new FlyController(0, -degToRad(20), {
+  actions: new ActionMap(
+    DEFAULT_FLY_BINDINGS,
+    new DomInputSource({ pointerLock: USE_POINTER_LOCK }),
+  ),
+});
+const orbitController = new OrbitController({ distance: 10 });
+let controller: CameraController = flyController;
+controller.attach(canvas.getCanvas());
+
+window.addEventListener("keydown", (e) => {
+  if (e.key !== "c" && e.key !== "C") return;
+  controller.detach();
+  if (controller === flyController) {
+    orbitController.mode = "orbit";
+    controller = orbitController;
+  } else if (orbitController.mode === "orbit") {
+    orbitController.mode = "arcball";
+  } else {
+    controller = flyController;
+  }
+  controller.syncFromCamera(camera);
+  controller.attach(canvas.getCanvas());
+});
+
+// Press "o" to switch between perspective and orthographic projection.
+window.addEventListener("keydown", (e) => {
+  if (e.key === "o" || e.key === "O") {
+    camera.projection = camera.isOrthographic() ? "perspective" : "orthographic";
+  }
+});
 
 /** When true, draw each polygon's surface normal as a small pink line. */
 const DEBUG_SHOW_DIRECTION = false;
@@ -47,59 +95,211 @@ const APPLY_PAINTERS_ALGORITHM = false;
 /** When true, skip polygons facing away from the camera (back-face culling). */
 const APPLY_BACK_FACE_CULLING = false;
 
+/** When true, drop the parts of lines hidden behind other polygons (hidden-line removal). */
+const APPLY_HIDDEN_LINE_REMOVAL = false;
+
+/** When true, draw edges shared by two polygons once instead of once per polygon. */
+const DRAW_UNIQUE_EDGES = false;
+
+/**
+ * When true, draw only outlines (silhouettes, white), sharp creases (grey) and
+ * open borders (red) instead of every polygon edge.
+ */
+const DRAW_FEATURE_EDGES = false;
+
+/** Feature edge styles used when DRAW_FEATURE_EDGES is on. */
+const FEATURE_EDGES: FeatureEdgeOptions = {
+  silhouette: { color: "#ffffff", lineWidth: 3 },
+  crease: { color: "#888888" },
+  boundary: { color: "#ff0000" },
+};
+
+/**
+ * How the demo mesh is checked on load: "trust" as-is, "strict" rejects broken
+ * meshes, "lenient" repairs them (welds, drops degenerates, fixes winding).
+ */
+const MESH_LOAD_MODE: MeshLoadMode = "trust";
+
+/** When true, fade lines toward the background with distance from the camera (depth cueing). */
+const APPLY_DEPTH_CUE = false;
+
+/** Fog used when APPLY_DEPTH_CUE is on: fades from 5 to 30 units, along each line. */
+const DEPTH_CUE: DepthCueOptions = {
+  mode: "linear",
+  near: 5,
+  far: 30,
+  color: "#000000",
+  farWidthScale: 0.5,
+  gradient: true,
+};
+
+/** Color and width of the outline drawn over the last clicked edge, vertex or polygon. */
+const PICK_HIGHLIGHT_COLOR = "#ffff00";
+const PICK_HIGHLIGHT_WIDTH = 3;
+
+/** When true, fill each polygon in its color (depth-sorted solid preview). */
+const FILL_POLYGONS = false;
+
+/** When true (and filling), shade polygon fills by a directional light. */
+const APPLY_FLAT_SHADING = true;
+
+/** World-space direction of the light used for flat shading. */
+const LIGHT_DIRECTION = new Vec3(-0.5, -1, -0.75);
+
+/**
+ * When true, render with the software z-buffer rasterizer instead of Canvas 2D paths
+ * (per-pixel occlusion; honours FILL_POLYGONS, APPLY_HIDDEN_LINE_REMOVAL and back-face culling).
+ */
+const USE_SOFTWARE_RASTERIZER = false;
+
+/** When true, frustum-cull through a bounding volume hierarchy instead of testing every object. */
+const USE_SPATIAL_INDEX = false;
+
+/** Both cubes spin around Y once every 4 seconds. Press "p" to pause/resume. */
+const SPIN_ANIMATION: AnimationJSON = {
+  version: 1,
+  clips: [
+    {
+      name: "spin",
+      tracks: ["left", "right"].map((target) => ({
+        target,
+        property: "rotation" as const,
+        keyframes: [
+          { time: 0, value: { x: 0, y: 0, z: 0 } },
+          { time: 4, value: { x: 0, y: Math.PI * 2, z: 0 } },
+        ],
+      })),
+    },
+  ],
+};
+
+/**
+ * Screen segments outlining a pick: the edge, a small square around the vertex,
+ * or the polygon's outline. Recomputed each frame so it follows animated objects.
+ */
+function pickHighlightSegments(
+  hit: PickResult | WireframePickResult,
+  viewProj: Mat4,
+): Array<[number, number, number, number]> {
+  const mesh = hit.object.mesh;
+  if (!mesh) return [];
+  const world = hit.object.getWorldMatrix();
+  const indices = "vertexIndices" in hit ? hit.vertexIndices : mesh.polygons[hit.polygonIndex].vertexIndices;
+  const clip = indices.map((i) => {
+    const p = world.transformPoint(mesh.vertices[i]);
+    return viewProj.transformVec4(new Vec4(p.x, p.y, p.z, 1));
+  });
+
+  if (clip.length === 1) {
+    if (!isClipPointInside(clip[0])) return [];
+    const { x, y } = clipToScreen(clip[0], viewport);
+    const r = 4;
+    return [
+      [x - r, y - r, x + r, y - r],
+      [x + r, y - r, x + r, y + r],
+      [x + r, y + r, x - r, y + r],
+      [x - r, y + r, x - r, y - r],
+    ];
+  }
+
+  const segments: Array<[number, number, number, number]> = [];
+  const edgeCount = clip.length === 2 ? 1 : clip.length;
+  for (let i = 0; i < edgeCount; i++) {
+    const segment = clipSegmentToScreen(clip[i], clip[(i + 1) % clip.length], viewport);
+    if (segment) segments.push(segment);
+  }
+  return segments;
+}
+
 // Load the cube mesh and start rendering
 async function main() {
   try {
-    const meshData = await loadMesh("./assets/cube.json");
+    const meshData = await loadMesh("./assets/cube.json", { mode: MESH_LOAD_MODE });
     const mesh = Mesh.fromData(meshData);
 
     const scene = new Scene(camera);
-    scene.add(new Object3D(mesh, new Vec3(-2, 0, 0)));
-    scene.add(new Object3D(mesh, new Vec3(2, 0, 0)));
+    scene.add(new Object3D(mesh, new Vec3(-2, 0, 0), undefined, undefined, "left"));
+    scene.add(new Object3D(mesh, new Vec3(2, 0, 0), undefined, undefined, "right"));
+
+    const mixer = new AnimationMixer(scene);
+    const [spinClip] = animationClipsFromJSON(SPIN_ANIMATION);
+    const spin = mixer.play(spinClip, { loop: "repeat" });
+    window.addEventListener("keydown", (e) => {
+      if (e.key !== "p" && e.key !== "P") return;
+      if (spin.paused) spin.play();
+      else spin.pause();
+    });
+
+    // Click to highlight what is under the cursor: the nearest edge/vertex, else the polygon.
+    let picked: PickResult | WireframePickResult | null = null;
+    canvas.getCanvas().addEventListener("click", (e) => {
+      const rect = canvas.getCanvas().getBoundingClientRect();
+      const x = ((e.clientX - rect.left) / rect.width) * viewport.width;
+      const y = ((e.clientY - rect.top) / rect.height) * viewport.height;
+      picked = pickWireframe(scene, x, y, viewport) ?? pickPolygon(scene, x, y, viewport);
+    });
+
+    const spatialIndex = USE_SPATIAL_INDEX ? new ObjectBvh() : undefined;
+    const rasterizer = USE_SOFTWARE_RASTERIZER
+      ? new Rasterizer(viewport.width, viewport.height)
+      : null;
 
     let lastTime = performance.now();
 
     function render(currentTime: number) {
-      canvas.clear();
-
       const now = currentTime;
       const deltaTime = (now - lastTime) / 1000;
       lastTime = now;
 
-      // --- Camera controls via InputController ---
-      const updated = input.updateCamera(yaw, pitch, camera, deltaTime);
-      yaw = updated.yaw;
-      pitch = updated.pitch;
+      // --- Camera controls ---
+      controller.update(camera, deltaTime);
 
       // --- Object animation ---
-      const angle = (now / 1000) * ((Math.PI * 2) / 4);
-
-      // Update each object's rotation (both spin around Y)
-      for (const object of scene.objects) {
-        object.rotation.y = angle;
-      }
+      mixer.update(deltaTime);
 
       // Recompute view-projection from current camera
       const view = camera.getViewMatrix();
       const projection = camera.getProjectionMatrix(aspect);
       const viewProj = projection.multiply(view);
 
-      const { batches, debugNormalSegments } = projectSceneToPolygonWireframe(
-        scene,
-        viewProj,
-        viewport,
-        {
+      if (rasterizer) {
+        rasterizer.clear();
+        rasterizeScene(scene, viewProj, rasterizer, {
+          applyBackFaceCulling: APPLY_BACK_FACE_CULLING,
+          fillPolygons: FILL_POLYGONS,
+          hideOccludedLines: APPLY_HIDDEN_LINE_REMOVAL,
+          lineColor: FILL_POLYGONS ? "#000000" : undefined,
+          lineWidth: 2,
+          flatShading: APPLY_FLAT_SHADING
+            ? { lightDirection: LIGHT_DIRECTION }
+            : undefined,
+          spatialIndex,
+          uniqueEdges: DRAW_UNIQUE_EDGES,
+          featureEdges: DRAW_FEATURE_EDGES ? FEATURE_EDGES : undefined,
+          depthCue: APPLY_DEPTH_CUE ? DEPTH_CUE : undefined,
+        });
+        canvas.putPixels(rasterizer.colorBuffer);
+      } else {
+        renderFrame(canvas, scene, {
+          lineWidth: 2,
           debugShowDirection: DEBUG_SHOW_DIRECTION,
           applyPaintersAlgorithm: APPLY_PAINTERS_ALGORITHM,
           applyBackFaceCulling: APPLY_BACK_FACE_CULLING,
-        },
-      );
-      const lineWidth = 2;
-      for (const batch of batches) {
-        canvas.drawLines(batch.segments, batch.color, lineWidth);
+          applyHiddenLineRemoval: APPLY_HIDDEN_LINE_REMOVAL,
+          fillPolygons: FILL_POLYGONS,
+          outlineColor: FILL_POLYGONS ? "#000000" : undefined,
+          flatShading: APPLY_FLAT_SHADING
+            ? { lightDirection: LIGHT_DIRECTION }
+            : undefined,
+          spatialIndex,
+          uniqueEdges: DRAW_UNIQUE_EDGES,
+          featureEdges: DRAW_FEATURE_EDGES ? FEATURE_EDGES : undefined,
+          depthCue: APPLY_DEPTH_CUE ? DEPTH_CUE : undefined,
+        });
       }
-      if (debugNormalSegments.length > 0) {
-        canvas.drawLines(debugNormalSegments, "#ff69b4", 1);
+
+      if (picked) {
+        canvas.drawLines(pickHighlightSegments(picked, viewProj), PICK_HIGHLIGHT_COLOR, PICK_HIGHLIGHT_WIDTH);
       }
 
       requestAnimationFrame(render);
@@ -0,0 +1,142 @@
+import { AnimationClip, Interpolation, KeyframeTrack, TrackProperty } from "../core/AnimationClip";
+import { QuatJSON, Vec3JSON } from "./sceneLoader";
+
+/** Current animation file format version. */
+export const ANIMATION_FORMAT_VERSION = 1;
+
+export interface KeyframeJSON {
+  /** Seconds from the start of the clip. */
+  time: number;
+  /** { x, y, z } for position/rotation/scale, { x, y, z, w } for orientation. */
+  value: Vec3JSON | QuatJSON;
+}
+
+export interface TrackJSON {
+  /** Object name, or "camera" for the scene camera. */
+  target: string;
+  property: TrackProperty;
+  /** Defaults to "linear". */
+  interpolation?: Interpolation;
+  keyframes: KeyframeJSON[];
+}
+
+export interface AnimationClipJSON {
+  name: string;
+  /** Defaults to the last keyframe time. */
+  duration?: number;
+  tracks: TrackJSON[];
+}
+
+/** Animation file format: a list of clips. */
+export interface AnimationJSON {
+  version: number;
+  clips: AnimationClipJSON[];
+}
+
+const PROPERTIES: readonly TrackProperty[] = ["position", "rotation", "scale", "orientation"];
+const INTERPOLATIONS: readonly Interpolation[] = ["step", "linear", "cubic", "easeIn", "easeOut", "easeInOut"];
+
+/**
+ * Fetch an animation file and build its clips.
+ */
+export async function loadAnimationClipsFromUrl(url: string): Promise<AnimationClip[]> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load animation from ${url}: ${response.statusText}`);
+  }
+  return animationClipsFromJSON(await response.json());
+}
+
+/**
+ * Build clips from animation JSON.
+ * Throws with a descriptive message for an unsupported version or malformed
+ * clips, tracks or keyframes (e.g. times not increasing).
+ */
+export function animationClipsFromJSON(json: AnimationJSON): AnimationClip[] {
+  if (!json || typeof json !== "object") {
+    throw new Error("Animation: expected a JSON object");
+  }
+  if (json.version !== ANIMATION_FORMAT_VERSION) {
+    throw new Error(
+      `Animation: unsupported format version ${String(json.version)} (expected ${ANIMATION_FORMAT_VERSION})`,
+    );
+  }
+  if (!Array.isArray(json.clips)) {
+    throw new Error("Animation: \"clips\" must be an array");
+  }
+  return json.clips.map((clip, i) => clipFromJSON(clip, `clips[${i}]`));
+}
+
+/**
+ * Serialize clips to the animation file format (inverse of animationClipsFromJSON).
+ */
+export function animationClipsToJSON(clips: readonly AnimationClip[]): AnimationJSON {
+  return {
+    version: ANIMATION_FORMAT_VERSION,
+    clips: clips.map((clip) => ({
+      name: clip.name,
+      duration: clip.duration,
+      tracks: clip.tracks.map((track) => ({
+        target: track.target,
+        property: track.property,
+        interpolation: track.interpolation,
+        keyframes: track.times.map((time, i) => {
+          const [x, y, z, w] = track.values[i];
+          return { time, value: track.isQuaternion ? { x, y, z, w } : { x, y, z } };
+        }),
+      })),
+    })),
+  };
+}
+
+function clipFromJSON(json: AnimationClipJSON, path: string): AnimationClip {
+  if (!json || typeof json !== "object" || typeof json.name !== "string") {
+    throw new Error(`Animation: ${path} must be an object with a "name"`);
+  }
+  const label = `${path} ("${json.name}")`;
+  if (!Array.isArray(json.tracks)) {
+    throw new Error(`Animation: ${label} has no "tracks" array`);
+  }
+  const tracks = json.tracks.map((track, i) => trackFromJSON(track, `${label}.tracks[${i}]`));
+  return new AnimationClip(json.name, tracks, json.duration);
+}
+
+function trackFromJSON(json: TrackJSON, label: string): KeyframeTrack {
+  if (!json || typeof json !== "object" || typeof json.target !== "string") {
+    throw new Error(`Animation: ${label} must be an object with a "target"`);
+  }
+  if (!PROPERTIES.includes(json.property)) {
+    throw new Error(`Animation: ${label}.property must be one of ${PROPERTIES.join(", ")}, got "${String(json.property)}"`);
+  }
+  if (json.interpolation !== undefined && !INTERPOLATIONS.includes(json.interpolation)) {
+    throw new Error(
+      `Animation: ${label}.interpolation must be one of ${INTERPOLATIONS.join(", ")}, got "${String(json.interpolation)}"`,
+    );
+  }
+  if (!Array.isArray(json.keyframes) || json.keyframes.length === 0) {
+    throw new Error(`Animation: ${label} must have a non-empty "keyframes" array`);
+  }
+
+  const quaternion = json.property === "orientation";
+  const times: number[] = [];
+  const values: number[][] = [];
+  json.keyframes.forEach((keyframe, i) => {
+    if (!keyframe || !Number.isFinite(keyframe.time)) {
+      throw new Error(`Animation: ${label}.keyframes[${i}].time must be a number`);
+    }
+    if (i > 0 && keyframe.time <= times[i - 1]) {
+      throw new Error(`Animation: ${label}.keyframes[${i}].time must be greater than the previous keyframe's`);
+    }
+    const v = keyframe.value as Partial<QuatJSON> | undefined;
+    const value = v ? (quaternion ? [v.x, v.y, v.z, v.w] : [v.x, v.y, v.z]) : [];
+    if (value.length === 0 || !value.every(Number.isFinite)) {
+      throw new Error(
+        `Animation: ${label}.keyframes[${i}].value must be ${quaternion ? "{ x, y, z, w }" : "{ x, y, z }"} numbers`,
+      );
+    }
+    times.push(keyframe.time);
+    values.push(value as number[]);
+  });
+
+  return new KeyframeTrack(json.target, json.property, times, values, json.interpolation);
+}
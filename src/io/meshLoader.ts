@@ -1,4 +1,5 @@
 import { Vec3 } from "../math/vec3";
+import { MeshValidationOptions, MeshValidationReport, repairMesh, validateMesh } from "../core/meshValidation";
 
 export interface Polygon {
   color: string;
@@ -19,24 +20,96 @@ export interface MeshJSON {
   }>;
 }
 
+/**
+ * How much a loader trusts its input:
+ * - "trust": use the data as-is (fastest; bad data may crash the renderer)
+ * - "strict": validate and throw on errors (warnings are allowed)
+ * - "lenient": validate and repair (see repairMesh)
+ */
+export type MeshLoadMode = "trust" | "strict" | "lenient";
+
+export interface MeshLoadOptions extends MeshValidationOptions {
+  /** Default "trust". */
+  mode?: MeshLoadMode;
+  /** Called with the validation report in "strict" and "lenient" mode (e.g. to log warnings). */
+  onReport?: (report: MeshValidationReport) => void;
+}
+
 /**
  * Load a mesh from a JSON file.
  * Format: vertices (3D positions), polygons (each has color and vertexIndices into vertices).
  * No separate edge list: lines are implied by each polygon (consecutive vertices, then last to first).
  */
-export async function loadMesh(url: string): Promise<MeshData> {
+export async function loadMesh(url: string, options?: MeshLoadOptions): Promise<MeshData> {
   const response = await fetch(url);
   if (!response.ok) {
     throw new Error(`Failed to load mesh from ${url}: ${response.statusText}`);
   }
 
   const json: MeshJSON = await response.json();
+  return meshDataFromJSON(json, options);
+}
 
-  const vertices = json.vertices.map((v) => new Vec3(v.x, v.y, v.z ?? 0));
-  const polygons: Polygon[] = json.polygons ?? [];
+/**
+ * Convert parsed mesh JSON (vertices + polygons) into mesh data, validated or
+ * repaired according to the load mode.
+ */
+export function meshDataFromJSON(json: MeshJSON, options?: MeshLoadOptions): MeshData {
+  if ((options?.mode ?? "trust") === "trust") {
+    const vertices = json.vertices.map((v) => new Vec3(v.x, v.y, v.z ?? 0));
+    const polygons: Polygon[] = json.polygons ?? [];
+
+    return {
+      vertices,
+      polygons,
+    };
+  }
 
+  if (!json || !Array.isArray(json.vertices)) {
+    throw new Error("Mesh: expected a \"vertices\" array");
+  }
+  if (json.polygons !== undefined && !Array.isArray(json.polygons)) {
+    throw new Error("Mesh: \"polygons\" must be an array");
+  }
+  // Missing coordinates become NaN so validation reports them
+  const vertices = json.vertices.map((v) => new Vec3(v?.x ?? NaN, v?.y ?? NaN, v?.z ?? 0));
+  return checkMeshData({ vertices, polygons: json.polygons ?? [] }, options);
+}
+
+/**
+ * Apply a load mode to mesh data from any source (JSON, OBJ, STL, generators):
+ * "trust" returns it unchanged, "strict" throws when validateMesh finds errors,
+ * "lenient" returns the repaired mesh.
+ */
+export function checkMeshData(data: MeshData, options?: MeshLoadOptions): MeshData {
+  const mode = options?.mode ?? "trust";
+  if (mode === "trust") return data;
+  if (mode === "lenient") {
+    const result = repairMesh(data, options);
+    options?.onReport?.(result.report);
+    return result.data;
+  }
+
+  const report = validateMesh(data, options);
+  options?.onReport?.(report);
+  const errors = report.issues.filter((issue) => issue.severity === "error");
+  if (errors.length > 0) {
+    const shown = errors.slice(0, 3).map((issue) => issue.message);
+    if (errors.length > shown.length) shown.push(`and ${errors.length - shown.length} more`);
+    throw new Error(`Mesh: invalid mesh: ${shown.join("; ")}`);
+  }
+  return data;
+}
+
+/**
+ * Convert mesh data back to the JSON mesh format.
+ */
+export function meshDataToJSON(data: MeshData): MeshJSON {
   return {
-    vertices,
-    polygons,
+    vertices: data.vertices.map((v) => ({ x: v.x, y: v.y, z: v.z })),
+    polygons: data.polygons.map((p) => ({
+      color: p.color,
+      vertexIndices: [...p.vertexIndices],
+    })),
   };
 }
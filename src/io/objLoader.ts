@@ -0,0 +1,193 @@
+import { Vec3 } from "../math/vec3";
+import { formatColor } from "../core/color";
+import { MeshData, Polygon } from "./meshLoader";
+import { resolveRelativeUrl } from "./url";
+
+/** Color used for faces and lines without a material (or with an unknown one). */
+const DEFAULT_OBJ_COLOR = "#ffffff";
+
+/** A named `o` / `g` section of an OBJ file: a contiguous range of polygons. */
+export interface ObjGroup {
+  name: string;
+  /** Index of the group's first polygon in MeshData.polygons. */
+  firstPolygon: number;
+  polygonCount: number;
+}
+
+/** Mesh data loaded from OBJ, plus the object/group ranges it was declared in. */
+export interface ObjMeshData extends MeshData {
+  groups: ObjGroup[];
+}
+
+export interface ObjParseOptions {
+  /** Material name → CSS color (e.g. from parseMtl). */
+  materials?: Record<string, string>;
+  /** Color for elements without a known material. Default "#ffffff". */
+  defaultColor?: string;
+}
+
+/**
+ * Parse a Wavefront MTL file into material name → "#rrggbb" color, using each
+ * material's diffuse color (`Kd r g b`, components in [0, 1]).
+ * Materials without Kd are omitted. Throws on malformed Kd lines (with line number).
+ */
+export function parseMtl(text: string): Record<string, string> {
+  const materials: Record<string, string> = {};
+  let current: string | null = null;
+
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const lineNo = i + 1;
+    const tokens = stripComment(lines[i]).split(/\s+/).filter((t) => t.length > 0);
+    if (tokens.length === 0) continue;
+
+    const keyword = tokens[0];
+    if (keyword === "newmtl") {
+      if (tokens.length < 2) throw new Error(`MTL line ${lineNo}: newmtl without a name`);
+      current = tokens.slice(1).join(" ");
+    } else if (keyword === "Kd") {
+      if (current === null) throw new Error(`MTL line ${lineNo}: Kd before newmtl`);
+      const rgb = tokens.slice(1, 4).map(Number);
+      if (rgb.length !== 3 || rgb.some((c) => !Number.isFinite(c))) {
+        throw new Error(`MTL line ${lineNo}: expected "Kd r g b", got "${lines[i].trim()}"`);
+      }
+      materials[current] = formatColor({ r: rgb[0] * 255, g: rgb[1] * 255, b: rgb[2] * 255 });
+    }
+  }
+
+  return materials;
+}
+
+/**
+ * Parse Wavefront OBJ text into mesh data.
+ *
+ * Supported records:
+ * - `v x y z [w]`: vertex position (w is ignored)
+ * - `f a b c ...`: polygon; each index may be `v`, `v/vt`, `v//vn` or `v/vt/vn`
+ * - `l a b ...`: polyline; stored as one two-index polygon per segment
+ * - `o name` / `g name`: start a new group (see ObjMeshData.groups)
+ * - `usemtl name`: color for following elements (via options.materials)
+ *
+ * Indices are 1-based; negative indices count back from the latest vertex.
+ * Other records (vt, vn, s, mtllib, ...) are ignored.
+ * Throws an Error naming the line number for malformed records or out-of-range indices.
+ */
+export function parseObj(text: string, options?: ObjParseOptions): ObjMeshData {
+  const materials = options?.materials ?? {};
+  const defaultColor = options?.defaultColor ?? DEFAULT_OBJ_COLOR;
+  const vertices: Vec3[] = [];
+  const polygons: Polygon[] = [];
+  const groups: ObjGroup[] = [];
+  let color = defaultColor;
+  let group: ObjGroup | null = null;
+
+  const startGroup = (name: string) => {
+    group = { name, firstPolygon: polygons.length, polygonCount: 0 };
+    groups.push(group);
+  };
+  const addPolygon = (vertexIndices: number[]) => {
+    polygons.push({ color, vertexIndices });
+    if (group) group.polygonCount++;
+  };
+
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const lineNo = i + 1;
+    const tokens = stripComment(lines[i]).split(/\s+/).filter((t) => t.length > 0);
+    if (tokens.length === 0) continue;
+
+    const keyword = tokens[0];
+    const args = tokens.slice(1);
+
+    switch (keyword) {
+      case "v": {
+        const coords = args.slice(0, 3).map(Number);
+        if (coords.length !== 3 || coords.some((c) => !Number.isFinite(c))) {
+          throw new Error(`OBJ line ${lineNo}: expected "v x y z", got "${lines[i].trim()}"`);
+        }
+        vertices.push(new Vec3(coords[0], coords[1], coords[2]));
+        break;
+      }
+      case "f": {
+        if (args.length < 3) {
+          throw new Error(`OBJ line ${lineNo}: face needs at least 3 vertices`);
+        }
+        addPolygon(args.map((token) => resolveIndex(token, vertices.length, lineNo)));
+        break;
+      }
+      case "l": {
+        if (args.length < 2) {
+          throw new Error(`OBJ line ${lineNo}: line needs at least 2 vertices`);
+        }
+        const indices = args.map((token) => resolveIndex(token, vertices.length, lineNo));
+        for (let k = 0; k + 1 < indices.length; k++) {
+          addPolygon([indices[k], indices[k + 1]]);
+        }
+        break;
+      }
+      case "o":
+      case "g":
+        startGroup(args.join(" ") || "default");
+        break;
+      case "usemtl":
+        if (args.length === 0) throw new Error(`OBJ line ${lineNo}: usemtl without a name`);
+        color = materials[args.join(" ")] ?? defaultColor;
+        break;
+      default:
+        break;
+    }
+  }
+
+  return { vertices, polygons, groups };
+}
+
+/**
+ * Load an OBJ file, plus any MTL libraries it references (`mtllib`, resolved
+ * relative to the OBJ URL), and parse it into mesh data.
+ */
+export async function loadObj(url: string, options?: ObjParseOptions): Promise<ObjMeshData> {
+  const text = await fetchText(url);
+
+  const materials: Record<string, string> = {};
+  for (const line of text.split(/\r?\n/)) {
+    const tokens = stripComment(line).trim().split(/\s+/);
+    if (tokens[0] !== "mtllib") continue;
+    for (const file of tokens.slice(1)) {
+      const mtlUrl = resolveRelativeUrl(url, file);
+      Object.assign(materials, parseMtl(await fetchText(mtlUrl)));
+    }
+  }
+
+  return parseObj(text, {
+    ...options,
+    materials: { ...materials, ...options?.materials },
+  });
+}
+
+/**
+ * Resolve one face/line vertex token (`v`, `v/vt`, `v//vn`, `v/vt/vn`) to a 0-based vertex index.
+ */
+function resolveIndex(token: string, vertexCount: number, lineNo: number): number {
+  const raw = Number(token.split("/")[0]);
+  if (!Number.isInteger(raw) || raw === 0) {
+    throw new Error(`OBJ line ${lineNo}: invalid vertex index "${token}"`);
+  }
+  const index = raw > 0 ? raw - 1 : vertexCount + raw;
+  if (index < 0 || index >= vertexCount) {
+    throw new Error(`OBJ line ${lineNo}: vertex index ${raw} out of range (${vertexCount} vertices)`);
+  }
+  return index;
+}
+
+function stripComment(line: string): string {
+  const hash = line.indexOf("#");
+  return hash === -1 ? line : line.slice(0, hash);
+}
+
+async function fetchText(url: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load ${url}: ${response.statusText}`);
+  }
+  return response.text();
+}
@@ -0,0 +1,139 @@
+/** PNG file signature. */
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/** Max payload of one uncompressed ("stored") deflate block. */
+const MAX_STORED_BLOCK = 0xffff;
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array, start: number, end: number): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = start; i < end; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function adler32(bytes: Uint8Array): number {
+  let a = 1;
+  let b = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    a = (a + bytes[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+}
+
+export interface PngEncodeOptions {
+  /**
+   * Compress the scanline data into a zlib stream (e.g. zlib.deflateSync under Node).
+   * Without it, the data is stored uncompressed (about 4 bytes per pixel).
+   */
+  deflate?: (data: Uint8Array) => Uint8Array;
+}
+
+/**
+ * Wrap raw bytes in a zlib stream made of uncompressed deflate blocks.
+ * No compression library is needed, so this runs in the browser and under Node;
+ * it is the fallback when no deflate function is given.
+ */
+function zlibStore(data: Uint8Array): Uint8Array {
+  const blockCount = Math.max(1, Math.ceil(data.length / MAX_STORED_BLOCK));
+  const out = new Uint8Array(2 + data.length + blockCount * 5 + 4);
+  let o = 0;
+  out[o++] = 0x78; // CMF: deflate, 32K window
+  out[o++] = 0x01; // FLG: no dictionary, fastest (check bits make 0x7801 % 31 == 0)
+
+  for (let block = 0; block < blockCount; block++) {
+    const start = block * MAX_STORED_BLOCK;
+    const len = Math.min(MAX_STORED_BLOCK, data.length - start);
+    out[o++] = block === blockCount - 1 ? 1 : 0; // BFINAL, BTYPE = 00 (stored)
+    out[o++] = len & 0xff;
+    out[o++] = (len >>> 8) & 0xff;
+    out[o++] = ~len & 0xff;
+    out[o++] = (~len >>> 8) & 0xff;
+    out.set(data.subarray(start, start + len), o);
+    o += len;
+  }
+
+  const adler = adler32(data);
+  out[o++] = (adler >>> 24) & 0xff;
+  out[o++] = (adler >>> 16) & 0xff;
+  out[o++] = (adler >>> 8) & 0xff;
+  out[o++] = adler & 0xff;
+  return out;
+}
+
+function writeUint32(out: Uint8Array, offset: number, value: number): void {
+  out[offset] = (value >>> 24) & 0xff;
+  out[offset + 1] = (value >>> 16) & 0xff;
+  out[offset + 2] = (value >>> 8) & 0xff;
+  out[offset + 3] = value & 0xff;
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(12 + data.length);
+  writeUint32(out, 0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  writeUint32(out, 8 + data.length, crc32(out, 4, 8 + data.length));
+  return out;
+}
+
+/**
+ * Encode an RGBA pixel buffer (e.g. Rasterizer.colorBuffer) as a PNG file.
+ * Image data is compressed with options.deflate, or stored uncompressed inside
+ * the zlib stream when it is not given.
+ */
+export function encodePng(
+  width: number,
+  height: number,
+  rgba: Uint8ClampedArray,
+  options?: PngEncodeOptions,
+): Uint8Array {
+  if (rgba.length !== width * height * 4) {
+    throw new Error(`PNG: expected ${width * height * 4} bytes of RGBA data, got ${rgba.length}`);
+  }
+
+  const header = new Uint8Array(13);
+  writeUint32(header, 0, width);
+  writeUint32(header, 4, height);
+  header[8] = 8; // bit depth
+  header[9] = 6; // color type: RGBA
+  header[10] = 0; // compression
+  header[11] = 0; // filter
+  header[12] = 0; // interlace
+
+  // Each scanline is prefixed with filter type 0 (none).
+  const stride = width * 4;
+  const raw = new Uint8Array((stride + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw[y * (stride + 1)] = 0;
+    raw.set(rgba.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+
+  const parts = [
+    Uint8Array.from(PNG_SIGNATURE),
+    chunk("IHDR", header),
+    chunk("IDAT", options?.deflate ? options.deflate(raw) : zlibStore(raw)),
+    chunk("IEND", new Uint8Array(0)),
+  ];
+  const total = parts.reduce((sum, p) => sum + p.length, 0);
+  const png = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    png.set(part, offset);
+    offset += part.length;
+  }
+  return png;
+}
@@ -0,0 +1,296 @@
+import { Vec3 } from "../math/vec3";
+import { Quat } from "../math/quat";
+import { Camera, ProjectionMode } from "../core/Camera";
+import { Mesh } from "../core/Mesh";
+import { Object3D } from "../core/Object3D";
+import { Scene } from "../core/Scene";
+import { MeshData, meshDataFromJSON, meshDataToJSON, MeshJSON, MeshLoadOptions } from "./meshLoader";
+import { resolveRelativeUrl } from "./url";
+
+/** Current scene file format version. */
+export const SCENE_FORMAT_VERSION = 1;
+
+export interface Vec3JSON {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface QuatJSON {
+  x: number;
+  y: number;
+  z: number;
+  w: number;
+}
+
+export interface CameraJSON {
+  position: Vec3JSON;
+  orientation: QuatJSON;
+  fovYRad: number;
+  near: number;
+  far: number;
+  /** Defaults to "perspective" when omitted. */
+  projection?: ProjectionMode;
+  /** Vertical view size in world units for orthographic cameras. */
+  orthoHeight?: number;
+}
+
+/** A mesh either referenced by URL (relative to the scene file) or stored inline. */
+export type MeshRefJSON = { url: string } | { inline: MeshJSON };
+
+export interface ObjectJSON {
+  name?: string;
+  /** Id of an entry in SceneJSON.meshes; omitted for group nodes without a mesh. */
+  mesh?: string;
+  position: Vec3JSON;
+  /** Euler rotation in radians. */
+  rotation: Vec3JSON;
+  scale: Vec3JSON;
+  children?: ObjectJSON[];
+}
+
+/**
+ * Scene file format. Meshes live in a shared table so several objects can
+ * reference the same geometry; objects form a tree mirroring the scene graph.
+ */
+export interface SceneJSON {
+  version: number;
+  camera: CameraJSON;
+  meshes: Record<string, MeshRefJSON>;
+  objects: ObjectJSON[];
+}
+
+/** Where a mesh came from, so serializeScene can write it back the same way. */
+interface MeshSource {
+  id: string;
+  url?: string;
+}
+
+/** Meshes created by loadScene, with the id and URL they were loaded from. */
+const meshSources = new WeakMap<Mesh, MeshSource>();
+
+export interface LoadSceneOptions {
+  /** Base URL that relative mesh URLs are resolved against. */
+  baseUrl?: string;
+  /** Mesh loader for URL references; defaults to fetching mesh JSON. */
+  fetchMesh?: (url: string) => Promise<MeshJSON>;
+  /**
+   * How meshes are checked (see meshDataFromJSON). Default "trust", like the
+   * other loaders; "strict" rejects meshes with errors (out-of-range indices,
+   * non-finite vertices) and "lenient" repairs them.
+   */
+  meshLoad?: MeshLoadOptions;
+}
+
+/**
+ * Fetch a scene file and build the Scene. Mesh URLs are resolved relative to the
+ * scene URL unless options.baseUrl is given; other options are passed to loadScene.
+ */
+export async function loadSceneFromUrl(url: string, options?: LoadSceneOptions): Promise<Scene> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load scene from ${url}: ${response.statusText}`);
+  }
+  return loadScene(await response.json(), { ...options, baseUrl: options?.baseUrl ?? url });
+}
+
+/**
+ * Build a Scene from scene JSON.
+ *
+ * Each mesh in the table is loaded once and shared by every object that references it.
+ * Throws with a descriptive message for an unsupported version, malformed values,
+ * unknown mesh ids, or mesh references that cannot be loaded or are invalid.
+ */
+export async function loadScene(json: SceneJSON, options?: LoadSceneOptions): Promise<Scene> {
+  if (!json || typeof json !== "object") {
+    throw new Error("Scene: expected a JSON object");
+  }
+  if (json.version !== SCENE_FORMAT_VERSION) {
+    throw new Error(
+      `Scene: unsupported format version ${String(json.version)} (expected ${SCENE_FORMAT_VERSION})`,
+    );
+  }
+
+  const camera = cameraFromJSON(json.camera);
+  const fetchMesh = options?.fetchMesh ?? fetchMeshJSON;
+
+  const meshes = new Map<string, Mesh>();
+  for (const [id, ref] of Object.entries(json.meshes ?? {})) {
+    let meshJson: MeshJSON;
+    let url: string | undefined;
+    if (ref && "url" in ref && typeof ref.url === "string") {
+      url = ref.url;
+      try {
+        meshJson = await fetchMesh(resolveRelativeUrl(options?.baseUrl, ref.url));
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new Error(`Scene: mesh "${id}" could not be loaded from ${ref.url}: ${reason}`);
+      }
+    } else if (ref && "inline" in ref) {
+      meshJson = ref.inline;
+    } else {
+      throw new Error(`Scene: mesh "${id}" must have either "url" or "inline"`);
+    }
+
+    let meshData: MeshData;
+    try {
+      meshData = meshDataFromJSON(meshJson, options?.meshLoad);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Scene: mesh "${id}" is invalid: ${reason}`);
+    }
+    const mesh = Mesh.fromData(meshData);
+    meshSources.set(mesh, { id, url });
+    meshes.set(id, mesh);
+  }
+
+  const scene = new Scene(camera);
+  if (!Array.isArray(json.objects)) {
+    throw new Error("Scene: \"objects\" must be an array");
+  }
+  json.objects.forEach((objectJson, i) => {
+    scene.add(objectFromJSON(objectJson, meshes, `objects[${i}]`));
+  });
+  return scene;
+}
+
+/**
+ * Serialize a Scene to scene JSON.
+ *
+ * Meshes are deduplicated: each distinct Mesh is written once to the mesh table.
+ * Meshes that came from loadScene keep their original id and URL reference;
+ * all others are stored inline under generated ids.
+ */
+export function serializeScene(scene: Scene): SceneJSON {
+  const meshes: Record<string, MeshRefJSON> = {};
+  const meshIds = new Map<Mesh, string>();
+  let generated = 0;
+
+  const meshId = (mesh: Mesh): string => {
+    const known = meshIds.get(mesh);
+    if (known) return known;
+
+    const source = meshSources.get(mesh);
+    let id = source?.id ?? `mesh${generated++}`;
+    while (id in meshes) id = `mesh${generated++}`;
+
+    meshes[id] = source?.url !== undefined
+      ? { url: source.url }
+      : { inline: meshDataToJSON(mesh) };
+    meshIds.set(mesh, id);
+    return id;
+  };
+
+  const objectToJSON = (object: Object3D): ObjectJSON => {
+    const out: ObjectJSON = {
+      ...(object.name ? { name: object.name } : {}),
+      ...(object.mesh ? { mesh: meshId(object.mesh) } : {}),
+      position: vec3ToJSON(object.position),
+      rotation: { x: object.rotation.x, y: object.rotation.y, z: object.rotation.z },
+      scale: vec3ToJSON(object.scale),
+    };
+    if (object.children.length > 0) out.children = object.children.map(objectToJSON);
+    return out;
+  };
+
+  const camera = scene.camera;
+  const objects = scene.objects.map(objectToJSON);
+
+  return {
+    version: SCENE_FORMAT_VERSION,
+    camera: {
+      position: vec3ToJSON(camera.position),
+      orientation: {
+        x: camera.orientation.x,
+        y: camera.orientation.y,
+        z: camera.orientation.z,
+        w: camera.orientation.w,
+      },
+      fovYRad: camera.fovYRad,
+      near: camera.near,
+      far: camera.far,
+      projection: camera.projection,
+      orthoHeight: camera.orthoHeight,
+    },
+    meshes,
+    objects,
+  };
+}
+
+function cameraFromJSON(json: CameraJSON): Camera {
+  if (!json || typeof json !== "object") {
+    throw new Error("Scene: missing \"camera\"");
+  }
+  const o = json.orientation;
+  if (!o || ![o.x, o.y, o.z, o.w].every(Number.isFinite)) {
+    throw new Error("Scene: camera.orientation must be a quaternion { x, y, z, w }");
+  }
+  for (const key of ["fovYRad", "near", "far"] as const) {
+    if (!Number.isFinite(json[key])) {
+      throw new Error(`Scene: camera.${key} must be a number`);
+    }
+  }
+  if (json.projection !== undefined && json.projection !== "perspective" && json.projection !== "orthographic") {
+    throw new Error(`Scene: camera.projection must be "perspective" or "orthographic", got "${String(json.projection)}"`);
+  }
+  if (json.orthoHeight !== undefined && !(Number.isFinite(json.orthoHeight) && json.orthoHeight > 0)) {
+    throw new Error("Scene: camera.orthoHeight must be a positive number");
+  }
+  const camera = new Camera(
+    vec3FromJSON(json.position, "camera.position"),
+    new Quat(o.x, o.y, o.z, o.w),
+    json.fovYRad,
+    json.near,
+    json.far,
+  );
+  if (json.projection) camera.projection = json.projection;
+  if (json.orthoHeight !== undefined) camera.orthoHeight = json.orthoHeight;
+  return camera;
+}
+
+function objectFromJSON(json: ObjectJSON, meshes: Map<string, Mesh>, path: string): Object3D {
+  if (!json || typeof json !== "object") {
+    throw new Error(`Scene: ${path} must be an object`);
+  }
+  const label = json.name ? `${path} ("${json.name}")` : path;
+
+  let mesh: Mesh | null = null;
+  if (json.mesh !== undefined) {
+    const found = meshes.get(json.mesh);
+    if (!found) {
+      throw new Error(`Scene: ${label} references unknown mesh "${json.mesh}"`);
+    }
+    mesh = found;
+  }
+
+  const object = new Object3D(
+    mesh,
+    vec3FromJSON(json.position, `${label}.position`),
+    { ...vec3FromJSON(json.rotation, `${label}.rotation`) },
+    vec3FromJSON(json.scale, `${label}.scale`),
+    json.name ?? "",
+  );
+  (json.children ?? []).forEach((child, i) => {
+    object.add(objectFromJSON(child, meshes, `${path}.children[${i}]`));
+  });
+  return object;
+}
+
+function vec3FromJSON(json: Vec3JSON, label: string): Vec3 {
+  if (!json || ![json.x, json.y, json.z].every(Number.isFinite)) {
+    throw new Error(`Scene: ${label} must be { x, y, z } numbers`);
+  }
+  return new Vec3(json.x, json.y, json.z);
+}
+
+function vec3ToJSON(v: Vec3): Vec3JSON {
+  return { x: v.x, y: v.y, z: v.z };
+}
+
+async function fetchMeshJSON(url: string): Promise<MeshJSON> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(response.statusText || `HTTP ${response.status}`);
+  }
+  return response.json();
+}
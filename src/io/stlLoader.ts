@@ -0,0 +1,229 @@
+import { Vec3 } from "../math/vec3";
+import { formatColor } from "../core/color";
+import { MeshData, Polygon } from "./meshLoader";
+
+/** Color for facets without a per-solid or per-facet color. */
+const DEFAULT_STL_COLOR = "#cccccc";
+
+/** Default distance below which two vertices are welded into one. */
+const DEFAULT_WELD_TOLERANCE = 1e-5;
+
+/** Binary STL: 80-byte header + uint32 triangle count, then 50 bytes per triangle. */
+const BINARY_HEADER_SIZE = 84;
+const BINARY_TRIANGLE_SIZE = 50;
+
+export interface StlParseOptions {
+  /** Vertices closer than this are merged into one shared index. Default 1e-5; 0 = exact matches only. */
+  weldTolerance?: number;
+  /** Color for facets without a more specific color. Default "#cccccc". */
+  color?: string;
+  /** ASCII only: solid name → color for the facets of that solid. */
+  solidColors?: Record<string, string>;
+  /**
+   * Binary only: use the per-facet 15-bit RGB in the attribute bytes when its
+   * "valid" bit (15) is set (VisCAM/SolidView convention).
+   */
+  useAttributeColors?: boolean;
+}
+
+/** A triangle as read from the file, before welding. */
+interface RawFacet {
+  vertices: [Vec3, Vec3, Vec3];
+  color: string;
+}
+
+/**
+ * Parse an STL file (ASCII or binary) into mesh data with shared (welded) vertices.
+ *
+ * Facet vertex order is kept as in the file, so the outward winding (right-hand
+ * rule) used by back-face culling is preserved. Facets that collapse when their
+ * vertices are welded are dropped.
+ */
+export function parseStl(buffer: ArrayBuffer, options?: StlParseOptions): MeshData {
+  const facets = readFacets(buffer, options);
+  if (facets.length === 0) {
+    throw new Error("STL: file contains no facets");
+  }
+  return weldFacets(facets, options?.weldTolerance ?? DEFAULT_WELD_TOLERANCE);
+}
+
+/**
+ * Load an STL file (ASCII or binary) from a URL and parse it into mesh data.
+ */
+export async function loadStl(url: string, options?: StlParseOptions): Promise<MeshData> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load STL from ${url}: ${response.statusText}`);
+  }
+  return parseStl(await response.arrayBuffer(), options);
+}
+
+/**
+ * Binary when the size matches the triangle count in the header exactly.
+ * (ASCII files start with "solid", but so do some binary headers.) A larger file
+ * is binary with trailing bytes, as many exporters write, unless its text parses
+ * as ASCII facets.
+ */
+function readFacets(buffer: ArrayBuffer, options?: StlParseOptions): RawFacet[] {
+  const count = buffer.byteLength >= BINARY_HEADER_SIZE ? new DataView(buffer).getUint32(80, true) : -1;
+  const binarySize = BINARY_HEADER_SIZE + count * BINARY_TRIANGLE_SIZE;
+  if (count < 0 || binarySize > buffer.byteLength) {
+    return parseAsciiFacets(new TextDecoder().decode(buffer), options);
+  }
+  if (binarySize === buffer.byteLength) {
+    return parseBinaryFacets(buffer, options);
+  }
+
+  let ascii: RawFacet[] = [];
+  try {
+    ascii = parseAsciiFacets(new TextDecoder().decode(buffer), options);
+  } catch {
+    // Not ASCII after all
+  }
+  return ascii.length > 0 ? ascii : parseBinaryFacets(buffer, options);
+}
+
+function parseBinaryFacets(buffer: ArrayBuffer, options?: StlParseOptions): RawFacet[] {
+  const view = new DataView(buffer);
+  const count = view.getUint32(80, true);
+  const defaultColor = options?.color ?? DEFAULT_STL_COLOR;
+  const facets: RawFacet[] = [];
+
+  for (let i = 0; i < count; i++) {
+    // Skip the 12-byte facet normal; winding defines the normal.
+    const base = BINARY_HEADER_SIZE + i * BINARY_TRIANGLE_SIZE + 12;
+    const vertex = (k: number) =>
+      new Vec3(
+        view.getFloat32(base + k * 12, true),
+        view.getFloat32(base + k * 12 + 4, true),
+        view.getFloat32(base + k * 12 + 8, true),
+      );
+    const vertices: [Vec3, Vec3, Vec3] = [vertex(0), vertex(1), vertex(2)];
+    if (vertices.some((v) => !Number.isFinite(v.x) || !Number.isFinite(v.y) || !Number.isFinite(v.z))) {
+      throw new Error(`Binary STL triangle ${i}: non-finite vertex coordinate`);
+    }
+
+    let color = defaultColor;
+    if (options?.useAttributeColors) {
+      const attr = view.getUint16(base + 36, true);
+      if (attr & 0x8000) {
+        const scale = 255 / 31;
+        color = formatColor({
+          r: ((attr >> 10) & 0x1f) * scale,
+          g: ((attr >> 5) & 0x1f) * scale,
+          b: (attr & 0x1f) * scale,
+        });
+      }
+    }
+
+    facets.push({ vertices, color });
+  }
+
+  return facets;
+}
+
+function parseAsciiFacets(text: string, options?: StlParseOptions): RawFacet[] {
+  const defaultColor = options?.color ?? DEFAULT_STL_COLOR;
+  const facets: RawFacet[] = [];
+  let color = defaultColor;
+  let loop: Vec3[] | null = null;
+
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const lineNo = i + 1;
+    const tokens = lines[i].trim().split(/\s+/).filter((t) => t.length > 0);
+    if (tokens.length === 0) continue;
+
+    switch (tokens[0]) {
+      case "solid": {
+        const name = tokens.slice(1).join(" ");
+        color = options?.solidColors?.[name] ?? defaultColor;
+        break;
+      }
+      case "endsolid":
+        color = defaultColor;
+        break;
+      case "outer":
+        loop = [];
+        break;
+      case "vertex": {
+        const coords = tokens.slice(1, 4).map(Number);
+        if (!loop || coords.length !== 3 || coords.some((c) => !Number.isFinite(c))) {
+          throw new Error(`STL line ${lineNo}: malformed vertex "${lines[i].trim()}"`);
+        }
+        loop.push(new Vec3(coords[0], coords[1], coords[2]));
+        break;
+      }
+      case "endloop":
+        if (!loop || loop.length !== 3) {
+          throw new Error(`STL line ${lineNo}: facet loop must have exactly 3 vertices`);
+        }
+        facets.push({ vertices: [loop[0], loop[1], loop[2]], color });
+        loop = null;
+        break;
+      default:
+        // facet normal / endfacet carry no information we need.
+        break;
+    }
+  }
+
+  return facets;
+}
+
+/**
+ * Merge vertices closer than `tolerance` (spatial hash over cells of that size)
+ * and build indexed polygons. Facets that collapse to fewer than 3 distinct
+ * vertices are dropped.
+ */
+function weldFacets(facets: RawFacet[], tolerance: number): MeshData {
+  const vertices: Vec3[] = [];
+  const polygons: Polygon[] = [];
+  const cells = new Map<string, number[]>();
+  const cellSize = tolerance > 0 ? tolerance : 1;
+  const toleranceSq = tolerance * tolerance;
+
+  const cellKey = (x: number, y: number, z: number) => `${x},${y},${z}`;
+
+  const indexOf = (v: Vec3): number => {
+    if (tolerance <= 0) {
+      const key = cellKey(v.x, v.y, v.z);
+      const existing = cells.get(key);
+      if (existing) return existing[0];
+      cells.set(key, [vertices.length]);
+      vertices.push(v);
+      return vertices.length - 1;
+    }
+
+    const cx = Math.floor(v.x / cellSize);
+    const cy = Math.floor(v.y / cellSize);
+    const cz = Math.floor(v.z / cellSize);
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dz = -1; dz <= 1; dz++) {
+          const bucket = cells.get(cellKey(cx + dx, cy + dy, cz + dz));
+          if (!bucket) continue;
+          for (const index of bucket) {
+            if (Vec3.distanceSq(vertices[index], v) <= toleranceSq) return index;
+          }
+        }
+      }
+    }
+
+    const key = cellKey(cx, cy, cz);
+    const bucket = cells.get(key);
+    if (bucket) bucket.push(vertices.length);
+    else cells.set(key, [vertices.length]);
+    vertices.push(v);
+    return vertices.length - 1;
+  };
+
+  for (const facet of facets) {
+    const indices = facet.vertices.map(indexOf);
+    if (indices[0] === indices[1] || indices[1] === indices[2] || indices[0] === indices[2]) {
+      continue;
+    }
+    polygons.push({ color: facet.color, vertexIndices: indices });
+  }
+
+  return { vertices, polygons };
+}
@@ -0,0 +1,169 @@
+import type { Viewport } from "../math/projection";
+import type { ProjectSceneResult } from "../core/renderHelpers";
+import { formatColor, parseColorWithAlpha } from "../core/color";
+
+/** Points closer than this (in pixels) are treated as the same point when chaining segments. */
+const JOIN_EPSILON = 1e-6;
+
+/** Max deviation (in pixels) for a middle point to be dropped as collinear. */
+const COLLINEAR_EPSILON = 1e-3;
+
+export interface SvgExportOptions {
+  /** Background fill; omitted (transparent) when not set. */
+  background?: string;
+  /** Stroke width for polygon batches without their own lineWidth. Default 1. */
+  lineWidth?: number;
+  /** Stroke color for debug normal segments. Default "#ff69b4". */
+  debugNormalColor?: string;
+  /** Stroke width for debug normal segments. Default 1. */
+  debugNormalLineWidth?: number;
+  /** Decimal places for coordinates. Default 2. */
+  precision?: number;
+}
+
+/**
+ * Export a rendered frame (result of projectSceneToPolygonWireframe) as a
+ * standalone SVG document. No DOM is needed, so this also runs headlessly.
+ *
+ * Draw order is preserved: batches in order (fill first, then outline), then
+ * debug normal segments on top. Within a batch, consecutive segments that
+ * share endpoints are chained into one <polyline>, dropping collinear middle points.
+ * Colors with alpha are written as an opaque color plus fill-opacity or
+ * stroke-opacity, since SVG 1.1 has no "#rrggbbaa".
+ */
+export function exportSvg(
+  result: ProjectSceneResult,
+  viewport: Viewport,
+  options?: SvgExportOptions,
+): string {
+  const precision = options?.precision ?? 2;
+  const lineWidth = options?.lineWidth ?? 1;
+  const fmt = (n: number) => formatNumber(n, precision);
+  const out: string[] = [];
+
+  out.push('<?xml version="1.0" encoding="UTF-8"?>');
+  out.push(
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${viewport.width}" height="${viewport.height}" ` +
+      `viewBox="0 0 ${viewport.width} ${viewport.height}">`,
+  );
+  if (options?.background) {
+    out.push(
+      `  <rect width="${viewport.width}" height="${viewport.height}" ${paint("fill", options.background)}/>`,
+    );
+  }
+
+  for (const batch of result.batches) {
+    if (batch.fillPoints && batch.fillPoints.length >= 3) {
+      const points = batch.fillPoints.map(([x, y]) => `${fmt(x)},${fmt(y)}`).join(" ");
+      out.push(`  <polygon points="${points}" ${paint("fill", batch.fillColor ?? batch.color)}/>`);
+    }
+    out.push(...strokeElements(batch.segments, batch.color, (batch.lineWidth ?? lineWidth) * (batch.lineWidthScale ?? 1), fmt));
+  }
+
+  out.push(
+    ...strokeElements(
+      result.debugNormalSegments,
+      options?.debugNormalColor ?? "#ff69b4",
+      options?.debugNormalLineWidth ?? 1,
+      fmt,
+    ),
+  );
+
+  out.push("</svg>");
+  return out.join("\n") + "\n";
+}
+
+/**
+ * Chain consecutive segments that share endpoints into polylines.
+ * Each polyline is a list of points; collinear middle points are removed.
+ */
+export function mergeSegments(
+  segments: ReadonlyArray<[number, number, number, number]>,
+): Array<Array<[number, number]>> {
+  const polylines: Array<Array<[number, number]>> = [];
+  let current: Array<[number, number]> | null = null;
+
+  for (const [x1, y1, x2, y2] of segments) {
+    const last: [number, number] | undefined = current?.[current.length - 1];
+    if (current && last && samePoint(last, [x1, y1])) {
+      current.push([x2, y2]);
+    } else {
+      current = [[x1, y1], [x2, y2]];
+      polylines.push(current);
+    }
+  }
+
+  return polylines.map(removeCollinearPoints);
+}
+
+function strokeElements(
+  segments: ReadonlyArray<[number, number, number, number]>,
+  color: string,
+  lineWidth: number,
+  fmt: (n: number) => string,
+): string[] {
+  if (segments.length === 0) return [];
+  const stroke = `fill="none" ${paint("stroke", color)} stroke-width="${fmt(lineWidth)}" stroke-linecap="round" stroke-linejoin="round"`;
+
+  return mergeSegments(segments).map((points) => {
+    if (points.length === 2) {
+      const [[x1, y1], [x2, y2]] = points;
+      return `  <line x1="${fmt(x1)}" y1="${fmt(y1)}" x2="${fmt(x2)}" y2="${fmt(y2)}" ${stroke}/>`;
+    }
+    const list = points.map(([x, y]) => `${fmt(x)},${fmt(y)}`).join(" ");
+    return `  <polyline points="${list}" ${stroke}/>`;
+  });
+}
+
+/**
+ * `fill="..."` or `stroke="..."` for a color. A color with alpha becomes its
+ * opaque "#rrggbb" plus a separate opacity attribute; other colors are
+ * written as given.
+ */
+function paint(attr: "fill" | "stroke", color: string): string {
+  const rgba = parseColorWithAlpha(color);
+  if (!rgba || rgba.a >= 1) return `${attr}="${escapeAttr(color)}"`;
+  return `${attr}="${formatColor(rgba)}" ${attr}-opacity="${formatNumber(rgba.a, 3)}"`;
+}
+
+function removeCollinearPoints(points: Array<[number, number]>): Array<[number, number]> {
+  if (points.length <= 2) return points;
+  const out: Array<[number, number]> = [points[0]];
+
+  for (let i = 1; i < points.length - 1; i++) {
+    const a = out[out.length - 1];
+    const b = points[i];
+    const c = points[i + 1];
+    const abx = b[0] - a[0], aby = b[1] - a[1];
+    const acx = c[0] - a[0], acy = c[1] - a[1];
+    const acLen = Math.hypot(acx, acy);
+    // Drop b only when it lies on segment a→c (not when the path doubles back).
+    const onLine =
+      acLen > 0 &&
+      Math.abs(abx * acy - aby * acx) / acLen <= COLLINEAR_EPSILON &&
+      abx * acx + aby * acy >= 0 &&
+      abx * abx + aby * aby <= acLen * acLen;
+    if (!onLine) out.push(b);
+  }
+
+  out.push(points[points.length - 1]);
+  return out;
+}
+
+function samePoint(a: [number, number], b: [number, number]): boolean {
+  return Math.abs(a[0] - b[0]) <= JOIN_EPSILON && Math.abs(a[1] - b[1]) <= JOIN_EPSILON;
+}
+
+function formatNumber(n: number, precision: number): string {
+  const s = n.toFixed(precision);
+  const trimmed = s.includes(".") ? s.replace(/\.?0+$/, "") : s;
+  return trimmed === "-0" ? "0" : trimmed;
+}
+
+function escapeAttr(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
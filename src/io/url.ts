@@ -0,0 +1,11 @@
+/**
+ * Resolve a file reference (e.g. a mesh URL in a scene, an `mtllib` in an OBJ)
+ * against the URL of the file that contains it. Absolute paths and URLs with a
+ * scheme (`https:`, `data:`, ...) are returned unchanged; anything else replaces
+ * the last path segment of `base`.
+ */
+export function resolveRelativeUrl(base: string | undefined, relative: string): string {
+  if (!base || /^[a-z][a-z0-9+.-]*:|^\//i.test(relative)) return relative;
+  const slash = base.lastIndexOf("/");
+  return slash === -1 ? relative : base.slice(0, slash + 1) + relative;
+}
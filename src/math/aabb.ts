@@ -0,0 +1,105 @@
+import { Vec3 } from "./vec3";
+import { Mat4 } from "./mat4";
+
+/**
+ * Axis-aligned bounding box given by its min and max corners.
+ */
+export interface Aabb {
+  min: Vec3;
+  max: Vec3;
+}
+
+/**
+ * Smallest box containing a sphere.
+ */
+export function aabbFromSphere(center: Vec3, radius: number): Aabb {
+  return {
+    min: new Vec3(center.x - radius, center.y - radius, center.z - radius),
+    max: new Vec3(center.x + radius, center.y + radius, center.z + radius),
+  };
+}
+
+/**
+ * Smallest box containing both boxes.
+ */
+export function aabbUnion(a: Aabb, b: Aabb): Aabb {
+  return {
+    min: new Vec3(Math.min(a.min.x, b.min.x), Math.min(a.min.y, b.min.y), Math.min(a.min.z, b.min.z)),
+    max: new Vec3(Math.max(a.max.x, b.max.x), Math.max(a.max.y, b.max.y), Math.max(a.max.z, b.max.z)),
+  };
+}
+
+/**
+ * Box grown by `margin` on every side.
+ */
+export function aabbExpand(box: Aabb, margin: number): Aabb {
+  return {
+    min: new Vec3(box.min.x - margin, box.min.y - margin, box.min.z - margin),
+    max: new Vec3(box.max.x + margin, box.max.y + margin, box.max.z + margin),
+  };
+}
+
+/**
+ * Whether `outer` fully contains `inner`.
+ */
+export function aabbContains(outer: Aabb, inner: Aabb): boolean {
+  return (
+    outer.min.x <= inner.min.x && outer.min.y <= inner.min.y && outer.min.z <= inner.min.z &&
+    outer.max.x >= inner.max.x && outer.max.y >= inner.max.y && outer.max.z >= inner.max.z
+  );
+}
+
+/**
+ * Surface area of a box (cost metric for building bounding volume hierarchies).
+ */
+export function aabbSurfaceArea(box: Aabb): number {
+  const dx = box.max.x - box.min.x;
+  const dy = box.max.y - box.min.y;
+  const dz = box.max.z - box.min.z;
+  return 2 * (dx * dy + dy * dz + dz * dx);
+}
+
+/**
+ * Smallest box containing all points (a zero-size box at the origin when empty).
+ */
+export function aabbFromPoints(points: readonly Vec3[]): Aabb {
+  if (points.length === 0) return { min: Vec3.zero(), max: Vec3.zero() };
+  let minX = Infinity, minY = Infinity, minZ = Infinity;
+  let maxX = -Infinity, maxY = -Infinity, maxZ = -Infinity;
+  for (const p of points) {
+    if (p.x < minX) minX = p.x;
+    if (p.y < minY) minY = p.y;
+    if (p.z < minZ) minZ = p.z;
+    if (p.x > maxX) maxX = p.x;
+    if (p.y > maxY) maxY = p.y;
+    if (p.z > maxZ) maxZ = p.z;
+  }
+  return { min: new Vec3(minX, minY, minZ), max: new Vec3(maxX, maxY, maxZ) };
+}
+
+/**
+ * Box containing `box` after an affine transform (e.g. a world matrix).
+ * Transforms the center and sums the absolute matrix columns for the extents
+ * (Arvo's method), which gives the exact bounds of the transformed box.
+ */
+export function aabbTransform(box: Aabb, matrix: Mat4): Aabb {
+  const m = matrix.m;
+  const cx = (box.min.x + box.max.x) / 2;
+  const cy = (box.min.y + box.max.y) / 2;
+  const cz = (box.min.z + box.max.z) / 2;
+  const ex = (box.max.x - box.min.x) / 2;
+  const ey = (box.max.y - box.min.y) / 2;
+  const ez = (box.max.z - box.min.z) / 2;
+
+  const x = m[0] * cx + m[4] * cy + m[8] * cz + m[12];
+  const y = m[1] * cx + m[5] * cy + m[9] * cz + m[13];
+  const z = m[2] * cx + m[6] * cy + m[10] * cz + m[14];
+  const hx = Math.abs(m[0]) * ex + Math.abs(m[4]) * ey + Math.abs(m[8]) * ez;
+  const hy = Math.abs(m[1]) * ex + Math.abs(m[5]) * ey + Math.abs(m[9]) * ez;
+  const hz = Math.abs(m[2]) * ex + Math.abs(m[6]) * ey + Math.abs(m[10]) * ez;
+
+  return {
+    min: new Vec3(x - hx, y - hy, z - hz),
+    max: new Vec3(x + hx, y + hy, z + hz),
+  };
+}
@@ -0,0 +1,63 @@
+import { Vec3 } from "./vec3";
+import { aabbFromPoints } from "./aabb";
+
+/**
+ * Bounding sphere given by its center and radius.
+ */
+export interface BoundingSphere {
+  center: Vec3;
+  radius: number;
+}
+
+/**
+ * Approximate minimal bounding sphere of a point set (Ritter's algorithm).
+ *
+ * Starts from the two mutually distant points found by two farthest-point
+ * searches, then grows the sphere just enough for every point outside it.
+ * The result is at most a few percent larger than the optimal sphere; the
+ * sphere around the box center is used instead when it happens to be smaller.
+ * An empty point set gives a zero-radius sphere at the origin.
+ */
+export function computeBoundingSphere(points: readonly Vec3[]): BoundingSphere {
+  if (points.length === 0) return { center: Vec3.zero(), radius: 0 };
+
+  const farthestFrom = (from: Vec3): Vec3 => {
+    let best = from;
+    let bestSq = -1;
+    for (const p of points) {
+      const sq = p.sub(from).lengthSq();
+      if (sq > bestSq) {
+        bestSq = sq;
+        best = p;
+      }
+    }
+    return best;
+  };
+
+  const a = farthestFrom(points[0]);
+  const b = farthestFrom(a);
+  let center = a.add(b).scale(0.5);
+  let radius = b.sub(a).length() / 2;
+
+  for (const p of points) {
+    const offset = p.sub(center);
+    const distance = offset.length();
+    if (distance > radius) {
+      // Grow to touch both the old far side and the new point.
+      const newRadius = (radius + distance) / 2;
+      center = center.add(offset.scale((newRadius - radius) / distance));
+      radius = newRadius;
+    }
+  }
+
+  // Axis-aligned box center as an alternative center (better for some boxy shapes).
+  const box = aabbFromPoints(points);
+  const boxCenter = box.min.add(box.max).scale(0.5);
+  let boxRadiusSq = 0;
+  for (const p of points) {
+    boxRadiusSq = Math.max(boxRadiusSq, p.sub(boxCenter).lengthSq());
+  }
+  const boxRadius = Math.sqrt(boxRadiusSq);
+
+  return boxRadius < radius ? { center: boxCenter, radius: boxRadius } : { center, radius };
+}
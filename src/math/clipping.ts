@@ -0,0 +1,126 @@
+import { Vec4 } from "./vec4";
+import { EPSILON } from "./utils";
+
+/**
+ * Signed distances of a clip-space point to the six frustum planes
+ * (OpenGL convention: -w <= x, y, z <= w). A point is inside a plane
+ * when its distance is >= 0.
+ *
+ * Order: left, right, bottom, top, near, far.
+ */
+function planeDistances(p: Vec4): [number, number, number, number, number, number] {
+  return [
+    p.w + p.x, // left
+    p.w - p.x, // right
+    p.w + p.y, // bottom
+    p.w - p.y, // top
+    p.w + p.z, // near
+    p.w - p.z, // far
+  ];
+}
+
+/**
+ * Returns true if the clip-space point lies inside (or on) all six frustum planes
+ * and can be perspective-divided (w > EPSILON; the eye point itself is all zeros).
+ */
+export function isClipPointInside(p: Vec4): boolean {
+  if (p.w <= EPSILON) return false;
+  for (const d of planeDistances(p)) {
+    if (d < 0) return false;
+  }
+  return true;
+}
+
+/**
+ * Interpolate between two clip-space points (before the perspective divide).
+ */
+export function lerpClip(a: Vec4, b: Vec4, t: number): Vec4 {
+  return new Vec4(
+    a.x + (b.x - a.x) * t,
+    a.y + (b.y - a.y) * t,
+    a.z + (b.z - a.z) * t,
+    a.w + (b.w - a.w) * t
+  );
+}
+
+/**
+ * Clip a line segment in homogeneous clip space against the view frustum
+ * (Liang-Barsky on the six planes). Clipping happens before the perspective
+ * divide, so segments crossing the camera plane (w <= 0) are handled correctly.
+ *
+ * Returns the parametric range [t0, t1] of the visible part along a→b,
+ * or null if the segment is entirely outside, or if a clipped endpoint has
+ * w <= EPSILON (e.g. a segment through the eye point, which passes every
+ * plane but cannot be perspective-divided).
+ */
+export function clipSegmentParams(a: Vec4, b: Vec4): [number, number] | null {
+  const da = planeDistances(a);
+  const db = planeDistances(b);
+  let t0 = 0;
+  let t1 = 1;
+
+  for (let i = 0; i < 6; i++) {
+    const ea = da[i];
+    const eb = db[i];
+    if (ea < 0 && eb < 0) return null; // both outside this plane
+    if (ea >= 0 && eb >= 0) continue; // both inside this plane
+
+    const t = ea / (ea - eb);
+    if (ea < 0) {
+      // Entering the plane
+      if (t > t0) t0 = t;
+    } else {
+      // Leaving the plane
+      if (t < t1) t1 = t;
+    }
+    if (t0 > t1) return null;
+  }
+
+  if (lerpClip(a, b, t0).w <= EPSILON || lerpClip(a, b, t1).w <= EPSILON) return null;
+  return [t0, t1];
+}
+
+/**
+ * Clip a line segment in homogeneous clip space against the view frustum.
+ * Returns the visible endpoints, or null if the segment is entirely outside.
+ */
+export function clipSegment(a: Vec4, b: Vec4): [Vec4, Vec4] | null {
+  const range = clipSegmentParams(a, b);
+  if (!range) return null;
+  const [t0, t1] = range;
+  return [
+    t0 === 0 ? a : lerpClip(a, b, t0),
+    t1 === 1 ? b : lerpClip(a, b, t1),
+  ];
+}
+
+/**
+ * Clip a convex polygon in homogeneous clip space against the six frustum
+ * planes (Sutherland-Hodgman). Returns the clipped vertex loop, which is
+ * empty when the polygon is entirely outside the view volume or touches
+ * w <= EPSILON (degenerate at the eye point).
+ */
+export function clipPolygon(points: Vec4[]): Vec4[] {
+  let output = points;
+
+  for (let plane = 0; plane < 6; plane++) {
+    if (output.length === 0) break;
+    const input = output;
+    output = [];
+
+    for (let i = 0; i < input.length; i++) {
+      const current = input[i];
+      const next = input[(i + 1) % input.length];
+      const dc = planeDistances(current)[plane];
+      const dn = planeDistances(next)[plane];
+
+      if (dc >= 0) output.push(current);
+      if ((dc >= 0) !== (dn >= 0)) {
+        output.push(lerpClip(current, next, dc / (dc - dn)));
+      }
+    }
+  }
+
+  if (output.some((p) => p.w <= EPSILON)) return [];
+  return output;
+}
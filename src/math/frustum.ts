@@ -1,61 +1,125 @@
 import { Vec3 } from "./vec3";
-import { Vec4 } from "./vec4";
 import { Mat4 } from "./mat4";
 
+/** Result of a frustum containment test. */
+export type FrustumTestResult = "inside" | "outside" | "intersecting";
+
+/**
+ * Plane n·p + d = 0 with unit normal n pointing into the frustum,
+ * so the signed distance n·p + d is positive on the inside.
+ */
+export interface Plane {
+  normal: Vec3;
+  d: number;
+}
+
 /**
- * Tests whether a world-space bounding sphere is visible (intersects or is
- * inside) the view frustum. Used for object-level frustum culling.
+ * View frustum as six inward-facing planes (left, right, bottom, top, near, far).
  *
- * - Transforms the sphere center to camera space using the view matrix.
- * - Tests against near and far planes.
- * - Tests against the four FOV planes (left, right, top, bottom) using
- *   the camera's vertical FOV and aspect ratio.
+ * Built from a view-projection matrix with the Gribb/Hartmann method, so it
+ * works for any projection (perspective, orthographic, off-axis). With a
+ * view-projection matrix the planes are in world space; with projection * view * model
+ * they are in that model's local space.
  *
- * @param worldCenter - Center of the sphere in world space
- * @param worldRadius - Radius of the sphere in world space
- * @param viewMatrix - World-to-camera matrix (e.g. camera.getViewMatrix())
- * @param fovYRad - Vertical field of view in radians
- * @param aspect - Viewport aspect ratio (width / height)
- * @param near - Near clipping plane distance
- * @param far - Far clipping plane distance
- * @returns true if the sphere is visible (should be drawn), false if fully outside (cull)
+ * Tests return "inside" when the volume is fully inside all planes, so callers
+ * doing hierarchical culling can skip testing the children of such nodes.
  */
-export function isSphereInFrustum(
-  worldCenter: Vec3,
-  worldRadius: number,
-  viewMatrix: Mat4,
-  fovYRad: number,
-  aspect: number,
-  near: number,
-  far: number
-): boolean {
-  const v = viewMatrix.transformVec4(new Vec4(worldCenter.x, worldCenter.y, worldCenter.z, 1));
-  const cx = v.x;
-  const cy = v.y;
-  const cz = v.z;
-
-  // Camera looks down -Z; visible z is in [-far, -near]
-
-  // Near plane: z = -near. Sphere entirely in front (invalid) if cz - radius > -near
-  if (cz - worldRadius > -near) return false;
-
-  // Far plane: z = -far. Sphere entirely behind far if cz + radius < -far
-  if (cz + worldRadius < -far) return false;
-
-  // Side planes through origin. At z = -1: x in [-a, a], y in [-b, b]
-  // with a = aspect * tan(fovY/2), b = tan(fovY/2).
-  // Outward normals (unnormalized): right (1, 0, a), left (-1, 0, a), top (0, 1, b), bottom (0, -1, b).
-  const tanHalfFovY = Math.tan(fovYRad / 2);
-  const a = aspect * tanHalfFovY;
-  const b = tanHalfFovY;
-
-  // Signed distance of sphere's closest point to plane: center·n - radius.
-  // Cull when center·n > radius (sphere entirely outside).
-
-  if (cx + a * cz > worldRadius * Math.hypot(1, a)) return false;   // right
-  if (-cx + a * cz > worldRadius * Math.hypot(1, a)) return false;  // left
-  if (cy + b * cz > worldRadius * Math.hypot(1, b)) return false;   // top
-  if (-cy + b * cz > worldRadius * Math.hypot(1, b)) return false;  // bottom
-
-  return true;
+export class Frustum {
+  readonly planes: readonly Plane[];
+
+  constructor(planes: Plane[]) {
+    if (planes.length !== 6) {
+      throw new Error(`Frustum: expected 6 planes, got ${planes.length}`);
+    }
+    this.planes = planes;
+  }
+
+  /**
+   * Extract the planes of the clip volume -w <= x, y, z <= w from a
+   * (column-major) view-projection matrix.
+   */
+  static fromMatrix(viewProj: Mat4): Frustum {
+    const m = viewProj.m;
+    // Row i of the matrix is (m[i], m[4 + i], m[8 + i], m[12 + i]).
+    const row = (i: number): [number, number, number, number] => [m[i], m[4 + i], m[8 + i], m[12 + i]];
+    const r0 = row(0), r1 = row(1), r2 = row(2), r3 = row(3);
+    const plane = (sign: number, r: [number, number, number, number]): Plane => {
+      const a = r3[0] + sign * r[0];
+      const b = r3[1] + sign * r[1];
+      const c = r3[2] + sign * r[2];
+      const d = r3[3] + sign * r[3];
+      const len = Math.hypot(a, b, c);
+      return len > 0
+        ? { normal: new Vec3(a / len, b / len, c / len), d: d / len }
+        : { normal: Vec3.zero(), d };
+    };
+
+    return new Frustum([
+      plane(1, r0),  // left
+      plane(-1, r0), // right
+      plane(1, r1),  // bottom
+      plane(-1, r1), // top
+      plane(1, r2),  // near
+      plane(-1, r2), // far
+    ]);
+  }
+
+  /**
+   * Whether a point lies inside (or on) all six planes.
+   */
+  containsPoint(point: Vec3): boolean {
+    return this.testPoint(point) !== "outside";
+  }
+
+  /**
+   * Classify a point: "inside" when inside all planes, "intersecting" when it
+   * lies exactly on a boundary plane, "outside" otherwise.
+   */
+  testPoint(point: Vec3): FrustumTestResult {
+    return this.testSphere(point, 0);
+  }
+
+  /**
+   * Classify a sphere against the frustum.
+   */
+  testSphere(center: Vec3, radius: number): FrustumTestResult {
+    let result: FrustumTestResult = "inside";
+    for (const p of this.planes) {
+      const distance = p.normal.dot(center) + p.d;
+      if (distance < -radius) return "outside";
+      if (distance <= radius) result = "intersecting";
+    }
+    return result;
+  }
+
+  /**
+   * Classify an axis-aligned box (min/max corners, same space as the planes).
+   * Uses the box corner furthest along each plane normal ("p-vertex") to
+   * reject and the nearest one ("n-vertex") to detect partial overlap.
+   */
+  testAabb(min: Vec3, max: Vec3): FrustumTestResult {
+    let result: FrustumTestResult = "inside";
+    for (const { normal: n, d } of this.planes) {
+      const px = n.x >= 0 ? max.x : min.x;
+      const py = n.y >= 0 ? max.y : min.y;
+      const pz = n.z >= 0 ? max.z : min.z;
+      if (n.x * px + n.y * py + n.z * pz + d < 0) return "outside";
+
+      const nx = n.x >= 0 ? min.x : max.x;
+      const ny = n.y >= 0 ? min.y : max.y;
+      const nz = n.z >= 0 ? min.z : max.z;
+      if (n.x * nx + n.y * ny + n.z * nz + d <= 0) result = "intersecting";
+    }
+    return result;
+  }
+
+  /** Whether a sphere is at least partly inside the frustum. */
+  intersectsSphere(center: Vec3, radius: number): boolean {
+    return this.testSphere(center, radius) !== "outside";
+  }
+
+  /** Whether an axis-aligned box is at least partly inside the frustum. */
+  intersectsAabb(min: Vec3, max: Vec3): boolean {
+    return this.testAabb(min, max) !== "outside";
+  }
 }
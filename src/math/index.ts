@@ -8,5 +8,8 @@ export * from "./mat4";
 export * from "./quat";
 export * from "./projection";
 export * from "./frustum";
+export * from "./aabb";
+export * from "./boundingSphere";
+export * from "./clipping";
 export * from "./utils";
 
@@ -1,4 +1,6 @@
+import { Vec3 } from "./vec3";
 import { Vec4 } from "./vec4";
+import { Quat } from "./quat";
 
 // We use column-major layout (OpenGL-style):
 // | m0  m4  m8  m12 |
@@ -84,6 +86,177 @@ export class Mat4 {
     );
   }
 
+  // Inverse matrix (cofactor expansion), or null if the matrix is singular.
+  inverse(): Mat4 | null {
+    const a = this.m;
+    const a00 = a[0], a01 = a[1], a02 = a[2], a03 = a[3];
+    const a10 = a[4], a11 = a[5], a12 = a[6], a13 = a[7];
+    const a20 = a[8], a21 = a[9], a22 = a[10], a23 = a[11];
+    const a30 = a[12], a31 = a[13], a32 = a[14], a33 = a[15];
+
+    // 2x2 sub-determinants of the upper and lower column pairs
+    const b00 = a00 * a11 - a01 * a10;
+    const b01 = a00 * a12 - a02 * a10;
+    const b02 = a00 * a13 - a03 * a10;
+    const b03 = a01 * a12 - a02 * a11;
+    const b04 = a01 * a13 - a03 * a11;
+    const b05 = a02 * a13 - a03 * a12;
+    const b06 = a20 * a31 - a21 * a30;
+    const b07 = a20 * a32 - a22 * a30;
+    const b08 = a20 * a33 - a23 * a30;
+    const b09 = a21 * a32 - a22 * a31;
+    const b10 = a21 * a33 - a23 * a31;
+    const b11 = a22 * a33 - a23 * a32;
+
+    const det = b00 * b11 - b01 * b10 + b02 * b09 + b03 * b08 - b04 * b07 + b05 * b06;
+    if (det === 0 || !Number.isFinite(det)) {
+      return null;
+    }
+    const inv = 1 / det;
+
+    return new Mat4(
+      (a11 * b11 - a12 * b10 + a13 * b09) * inv,
+      (a02 * b10 - a01 * b11 - a03 * b09) * inv,
+      (a31 * b05 - a32 * b04 + a33 * b03) * inv,
+      (a22 * b04 - a21 * b05 - a23 * b03) * inv,
+      (a12 * b08 - a10 * b11 - a13 * b07) * inv,
+      (a00 * b11 - a02 * b08 + a03 * b07) * inv,
+      (a32 * b02 - a30 * b05 - a33 * b01) * inv,
+      (a20 * b05 - a22 * b02 + a23 * b01) * inv,
+      (a10 * b10 - a11 * b08 + a13 * b06) * inv,
+      (a01 * b08 - a00 * b10 - a03 * b06) * inv,
+      (a30 * b04 - a31 * b02 + a33 * b00) * inv,
+      (a21 * b02 - a20 * b04 - a23 * b00) * inv,
+      (a11 * b07 - a10 * b09 - a12 * b06) * inv,
+      (a00 * b09 - a01 * b07 + a02 * b06) * inv,
+      (a31 * b01 - a30 * b03 - a32 * b00) * inv,
+      (a20 * b03 - a21 * b01 + a22 * b00) * inv
+    );
+  }
+
+  // Transpose (rows become columns).
+  transpose(): Mat4 {
+    const a = this.m;
+    return new Mat4(
+      a[0], a[4], a[8],  a[12],
+      a[1], a[5], a[9],  a[13],
+      a[2], a[6], a[10], a[14],
+      a[3], a[7], a[11], a[15]
+    );
+  }
+
+  // Determinant (negative when the matrix mirrors, zero when it is singular).
+  determinant(): number {
+    const a = this.m;
+    const b00 = a[0] * a[5] - a[1] * a[4];
+    const b01 = a[0] * a[6] - a[2] * a[4];
+    const b02 = a[0] * a[7] - a[3] * a[4];
+    const b03 = a[1] * a[6] - a[2] * a[5];
+    const b04 = a[1] * a[7] - a[3] * a[5];
+    const b05 = a[2] * a[7] - a[3] * a[6];
+    const b06 = a[8] * a[13] - a[9] * a[12];
+    const b07 = a[8] * a[14] - a[10] * a[12];
+    const b08 = a[8] * a[15] - a[11] * a[12];
+    const b09 = a[9] * a[14] - a[10] * a[13];
+    const b10 = a[9] * a[15] - a[11] * a[13];
+    const b11 = a[10] * a[15] - a[11] * a[14];
+    return b00 * b11 - b01 * b10 + b02 * b09 + b03 * b08 - b04 * b07 + b05 * b06;
+  }
+
+  // Transform a point (w = 1). Divides by the resulting w when it is not 1
+  // (e.g. for projection matrices); returns the undivided point when w is 0.
+  transformPoint(v: Vec3): Vec3 {
+    const a = this.m;
+    const x = a[0] * v.x + a[4] * v.y + a[8]  * v.z + a[12];
+    const y = a[1] * v.x + a[5] * v.y + a[9]  * v.z + a[13];
+    const z = a[2] * v.x + a[6] * v.y + a[10] * v.z + a[14];
+    const w = a[3] * v.x + a[7] * v.y + a[11] * v.z + a[15];
+    if (w === 1 || w === 0) return new Vec3(x, y, z);
+    return new Vec3(x / w, y / w, z / w);
+  }
+
+  // Transform a direction (w = 0): translation is ignored, the result is not normalized.
+  transformDirection(v: Vec3): Vec3 {
+    const a = this.m;
+    return new Vec3(
+      a[0] * v.x + a[4] * v.y + a[8]  * v.z,
+      a[1] * v.x + a[5] * v.y + a[9]  * v.z,
+      a[2] * v.x + a[6] * v.y + a[10] * v.z
+    );
+  }
+
+  // Split an affine matrix into translation, rotation and (possibly non-uniform) scale,
+  // so that compose(translation, rotation, scale) rebuilds it. Shear is not represented.
+  // A mirroring matrix (negative determinant) gets a negative x scale.
+  decompose(): { translation: Vec3; rotation: Quat; scale: Vec3 } {
+    const a = this.m;
+    let sx = Math.hypot(a[0], a[1], a[2]);
+    const sy = Math.hypot(a[4], a[5], a[6]);
+    const sz = Math.hypot(a[8], a[9], a[10]);
+    if (this.determinant() < 0) sx = -sx;
+
+    const ix = sx !== 0 ? 1 / sx : 0;
+    const iy = sy !== 0 ? 1 / sy : 0;
+    const iz = sz !== 0 ? 1 / sz : 0;
+    const rotation = Quat.fromMat4(new Mat4(
+      a[0] * ix, a[1] * ix, a[2] * ix, 0,
+      a[4] * iy, a[5] * iy, a[6] * iy, 0,
+      a[8] * iz, a[9] * iz, a[10] * iz, 0,
+      0, 0, 0, 1
+    ));
+
+    return {
+      translation: new Vec3(a[12], a[13], a[14]),
+      rotation,
+      scale: new Vec3(sx, sy, sz),
+    };
+  }
+
+  // Rotation matrix from a unit quaternion (column-major, no translation).
+  static fromQuat(q: Quat): Mat4 {
+    const x = q.x, y = q.y, z = q.z, w = q.w;
+    const xx = x * x, yy = y * y, zz = z * z;
+    const xy = x * y, xz = x * z, yz = y * z;
+    const wx = w * x, wy = w * y, wz = w * z;
+
+    return new Mat4(
+      1 - 2 * (yy + zz), 2 * (xy + wz),     2 * (xz - wy),     0,
+      2 * (xy - wz),     1 - 2 * (xx + zz), 2 * (yz + wx),     0,
+      2 * (xz + wy),     2 * (yz - wx),     1 - 2 * (xx + yy), 0,
+      0,                 0,                 0,                 1
+    );
+  }
+
+  // Compose translation * rotation * scale (scale first, then rotate, then translate).
+  static compose(translation: Vec3, rotation: Quat, scale: Vec3): Mat4 {
+    const r = Mat4.fromQuat(rotation).m;
+    return new Mat4(
+      r[0] * scale.x, r[1] * scale.x, r[2] * scale.x, 0,
+      r[4] * scale.y, r[5] * scale.y, r[6] * scale.y, 0,
+      r[8] * scale.z, r[9] * scale.z, r[10] * scale.z, 0,
+      translation.x, translation.y, translation.z, 1
+    );
+  }
+
+  // View matrix for a camera at `eye` looking at `target` (right-handed, looking down -Z).
+  // Falls back to another up vector when `up` is parallel to the view direction.
+  static lookAt(eye: Vec3, target: Vec3, up: Vec3 = new Vec3(0, 1, 0)): Mat4 {
+    const z = eye.sub(target).normalize(); // camera backward
+    let x = up.cross(z);
+    if (x.lengthSq() < 1e-12) {
+      x = (Math.abs(z.y) < 0.9 ? new Vec3(0, 1, 0) : new Vec3(1, 0, 0)).cross(z);
+    }
+    x = x.normalize();
+    const y = z.cross(x);
+
+    return new Mat4(
+      x.x, y.x, z.x, 0,
+      x.y, y.y, z.y, 0,
+      x.z, y.z, z.z, 0,
+      -x.dot(eye), -y.dot(eye), -z.dot(eye), 1
+    );
+  }
+
   static translation(tx: number, ty: number, tz: number): Mat4 {
     return new Mat4(
       1, 0, 0, 0,
@@ -147,5 +320,26 @@ export class Mat4 {
       0, 0, (2 * far * near) * rangeInv, 0
     );
   }
-}
 
+  // Orthographic projection matrix (right-handed, looking down -Z).
+  // Maps the box [left, right] x [bottom, top] x [-near, -far] to NDC [-1, 1]^3; w stays 1.
+  static orthographic(
+    left: number,
+    right: number,
+    bottom: number,
+    top: number,
+    near: number,
+    far: number
+  ): Mat4 {
+    const lr = 1.0 / (right - left);
+    const bt = 1.0 / (top - bottom);
+    const nf = 1.0 / (near - far);
+
+    return new Mat4(
+      2 * lr, 0, 0, 0,
+      0, 2 * bt, 0, 0,
+      0, 0, 2 * nf, 0,
+      -(right + left) * lr, -(top + bottom) * bt, (far + near) * nf, 1
+    );
+  }
+}
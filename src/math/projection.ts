@@ -31,6 +31,9 @@ export function ndcToScreen(xNdc: number, yNdc: number, viewport: Viewport): Vec
  * - `point` is in the space that `mvp` expects (typically object/local space).
  * - `mvp` is usually projection * view * model (column-major, column vectors).
  *
+ * Works for perspective and orthographic projections alike: with an
+ * orthographic matrix w stays 1, so only the near/far range marks a point as behind.
+ *
  * Returns `null` if the point cannot be projected (e.g. w == 0).
  */
 export function projectPoint(
@@ -63,3 +66,87 @@ export function projectPoint(
   };
 }
 
+
+/**
+ * Perspective-divide a clip-space point into NDC (x, y, z in [-1, 1] when inside the frustum).
+ * The caller must ensure clip.w > 0 (e.g. by clipping against the frustum first).
+ */
+export function clipToNdc(clip: Vec4): Vec3 {
+  const invW = 1 / clip.w;
+  return new Vec3(clip.x * invW, clip.y * invW, clip.z * invW);
+}
+
+/**
+ * Perspective-divide a clip-space point and map it to screen pixels.
+ * The caller must ensure clip.w > 0 (e.g. by clipping against the frustum first).
+ */
+export function clipToScreen(clip: Vec4, viewport: Viewport): Vec2 {
+  const ndc = clipToNdc(clip);
+  return ndcToScreen(ndc.x, ndc.y, viewport);
+}
+
+/**
+ * A ray with origin and unit direction.
+ */
+export interface Ray {
+  origin: Vec3;
+  direction: Vec3;
+}
+
+/**
+ * Map screen coordinates (pixels, origin top-left) to NDC x, y in [-1, 1].
+ * Inverse of ndcToScreen.
+ */
+export function screenToNdc(x: number, y: number, viewport: Viewport): Vec2 {
+  return new Vec2((x / viewport.width) * 2 - 1, 1 - (y / viewport.height) * 2);
+}
+
+/**
+ * Unproject a screen point at NDC depth `zNdc` (-1 = near plane, 1 = far plane)
+ * back into the space `mvp` maps from (world space for a view-projection matrix).
+ *
+ * Returns `null` if the matrix cannot be inverted or the point maps to infinity.
+ */
+export function unprojectPoint(
+  x: number,
+  y: number,
+  zNdc: number,
+  mvp: Mat4,
+  viewport: Viewport
+): Vec3 | null {
+  const inverse = mvp.inverse();
+  if (!inverse) return null;
+  return unprojectNdc(screenToNdc(x, y, viewport), zNdc, inverse);
+}
+
+/**
+ * Ray through a screen point, from the near plane towards the far plane,
+ * in the space `viewProj` maps from (usually world space).
+ * Works for perspective (rays fan out from the eye) and orthographic
+ * (parallel rays) projections.
+ *
+ * Returns `null` if the matrix cannot be inverted.
+ */
+export function rayFromScreen(
+  x: number,
+  y: number,
+  viewProj: Mat4,
+  viewport: Viewport
+): Ray | null {
+  const inverse = viewProj.inverse();
+  if (!inverse) return null;
+  const ndc = screenToNdc(x, y, viewport);
+  const near = unprojectNdc(ndc, -1, inverse);
+  const far = unprojectNdc(ndc, 1, inverse);
+  if (!near || !far) return null;
+  const direction = far.sub(near);
+  if (direction.lengthSq() === 0) return null;
+  return { origin: near, direction: direction.normalize() };
+}
+
+function unprojectNdc(ndc: Vec2, zNdc: number, inverse: Mat4): Vec3 | null {
+  const p = inverse.transformVec4(new Vec4(ndc.x, ndc.y, zNdc, 1));
+  if (p.w === 0 || !Number.isFinite(p.w)) return null;
+  const invW = 1 / p.w;
+  return new Vec3(p.x * invW, p.y * invW, p.z * invW);
+}
@@ -1,5 +1,12 @@
 import { Vec3 } from "./vec3";
 import { Mat4 } from "./mat4";
+import { clamp } from "./utils";
+
+/** Below this |dot| distance from 1, slerp falls back to nlerp (angle too small to divide by sin). */
+const SLERP_LINEAR_THRESHOLD = 0.9995;
+
+/** |sin(pitch)| above which toEuler treats the rotation as gimbal-locked. */
+const GIMBAL_POLE_THRESHOLD = 1 - 1e-6;
 
 /**
  * Quaternion representing a rotation.
@@ -107,28 +114,146 @@ export class Quat {
    * Column-major layout, suitable for use in our Mat4 pipeline.
    */
   toMat4(): Mat4 {
-    const x = this.x;
-    const y = this.y;
-    const z = this.z;
-    const w = this.w;
-
-    const xx = x * x;
-    const yy = y * y;
-    const zz = z * z;
-    const xy = x * y;
-    const xz = x * z;
-    const yz = y * z;
-    const wx = w * x;
-    const wy = w * y;
-    const wz = w * z;
-
-    // Column-major rotation matrix derived from quaternion
-    return new Mat4(
-      1 - 2 * (yy + zz), 2 * (xy + wz),       2 * (xz - wy),       0,
-      2 * (xy - wz),     1 - 2 * (xx + zz),   2 * (yz + wx),       0,
-      2 * (xz + wy),     2 * (yz - wx),       1 - 2 * (xx + yy),   0,
-      0,                 0,                   0,                   1
+    return Mat4.fromQuat(this);
+  }
+
+  dot(other: Quat): number {
+    return this.x * other.x + this.y * other.y + this.z * other.z + this.w * other.w;
+  }
+
+  /**
+   * Rotate a vector by this (unit) quaternion.
+   */
+  rotateVec3(v: Vec3): Vec3 {
+    // v' = v + 2w (q x v) + 2 q x (q x v), with q the vector part
+    const qv = new Vec3(this.x, this.y, this.z);
+    const t = qv.cross(v).scale(2);
+    return v.add(t.scale(this.w)).add(qv.cross(t));
+  }
+
+  /**
+   * Spherical linear interpolation from this (t = 0) to other (t = 1)
+   * along the shorter arc, at constant angular speed.
+   */
+  slerp(other: Quat, t: number): Quat {
+    let d = this.dot(other);
+    // q and -q are the same rotation; flip to take the shorter path.
+    const sign = d < 0 ? -1 : 1;
+    d *= sign;
+
+    if (d > SLERP_LINEAR_THRESHOLD) {
+      return this.nlerp(other, t);
+    }
+
+    const theta = Math.acos(d);
+    const sinTheta = Math.sin(theta);
+    const wa = Math.sin((1 - t) * theta) / sinTheta;
+    const wb = (Math.sin(t * theta) / sinTheta) * sign;
+    return new Quat(
+      this.x * wa + other.x * wb,
+      this.y * wa + other.y * wb,
+      this.z * wa + other.z * wb,
+      this.w * wa + other.w * wb
     );
   }
-}
 
+  /**
+   * Normalized linear interpolation (shorter arc): cheaper than slerp,
+   * same path but not constant speed.
+   */
+  nlerp(other: Quat, t: number): Quat {
+    const sign = this.dot(other) < 0 ? -1 : 1;
+    const wa = 1 - t;
+    const wb = t * sign;
+    return new Quat(
+      this.x * wa + other.x * wb,
+      this.y * wa + other.y * wb,
+      this.z * wa + other.z * wb,
+      this.w * wa + other.w * wb
+    ).normalize();
+  }
+
+  /**
+   * Angle in radians (0..PI) of the rotation taking this orientation to other.
+   */
+  angleTo(other: Quat): number {
+    const d = Math.abs(this.dot(other)) / Math.sqrt(this.lengthSq() * other.lengthSq() || 1);
+    return 2 * Math.acos(clamp(d, 0, 1));
+  }
+
+  /**
+   * Inverse of fromEuler: yaw (Y), pitch (X), roll (Z) in radians.
+   * Pitch is in [-PI/2, PI/2]. At the poles (pitch = +-90deg) yaw and roll
+   * rotate about the same axis, so roll is reported as 0 and yaw carries the rotation.
+   */
+  toEuler(): { yaw: number; pitch: number; roll: number } {
+    const x = this.x, y = this.y, z = this.z, w = this.w;
+    // Rotation matrix elements (row, column) of R = Ry * Rx * Rz
+    const m12 = 2 * (y * z - w * x);
+    const sinPitch = clamp(-m12, -1, 1);
+    const pitch = Math.asin(sinPitch);
+
+    if (Math.abs(sinPitch) < GIMBAL_POLE_THRESHOLD) {
+      const m02 = 2 * (x * z + w * y);
+      const m22 = 1 - 2 * (x * x + y * y);
+      const m10 = 2 * (x * y + w * z);
+      const m11 = 1 - 2 * (x * x + z * z);
+      return { yaw: Math.atan2(m02, m22), pitch, roll: Math.atan2(m10, m11) };
+    }
+
+    const m00 = 1 - 2 * (y * y + z * z);
+    const m20 = 2 * (x * z - w * y);
+    return { yaw: Math.atan2(-m20, m00), pitch, roll: 0 };
+  }
+
+  /**
+   * Rotation from the upper 3x3 of a matrix, which must be a pure rotation
+   * (orthonormal columns; use Mat4.decompose for matrices with scale).
+   */
+  static fromMat4(matrix: Mat4): Quat {
+    const m = matrix.m;
+    const m00 = m[0], m10 = m[1], m20 = m[2];
+    const m01 = m[4], m11 = m[5], m21 = m[6];
+    const m02 = m[8], m12 = m[9], m22 = m[10];
+    const trace = m00 + m11 + m22;
+
+    // Branch on the largest diagonal term for numerical stability (Shepperd's method).
+    if (trace > 0) {
+      const s = Math.sqrt(trace + 1) * 2; // 4w
+      return new Quat((m21 - m12) / s, (m02 - m20) / s, (m10 - m01) / s, 0.25 * s).normalize();
+    }
+    if (m00 > m11 && m00 > m22) {
+      const s = Math.sqrt(1 + m00 - m11 - m22) * 2; // 4x
+      return new Quat(0.25 * s, (m01 + m10) / s, (m02 + m20) / s, (m21 - m12) / s).normalize();
+    }
+    if (m11 > m22) {
+      const s = Math.sqrt(1 + m11 - m00 - m22) * 2; // 4y
+      return new Quat((m01 + m10) / s, 0.25 * s, (m12 + m21) / s, (m02 - m20) / s).normalize();
+    }
+    const s = Math.sqrt(1 + m22 - m00 - m11) * 2; // 4z
+    return new Quat((m02 + m20) / s, (m12 + m21) / s, 0.25 * s, (m10 - m01) / s).normalize();
+  }
+
+  /**
+   * Orientation that looks along `forward` with `up` as close to +Y of the result
+   * as possible (cameras look down their local -Z). Falls back to another up
+   * vector when `up` is parallel to `forward`.
+   */
+  static lookRotation(forward: Vec3, up: Vec3 = new Vec3(0, 1, 0)): Quat {
+    const z = forward.normalize().negate();
+    if (z.lengthSq() === 0) return Quat.identity();
+    let x = up.cross(z);
+    if (x.lengthSq() < 1e-12) {
+      x = (Math.abs(z.y) < 0.9 ? new Vec3(0, 1, 0) : new Vec3(1, 0, 0)).cross(z);
+    }
+    x = x.normalize();
+    const y = z.cross(x);
+
+    return Quat.fromMat4(new Mat4(
+      x.x, x.y, x.z, 0,
+      y.x, y.y, y.z, 0,
+      z.x, z.y, z.z, 0,
+      0, 0, 0, 1
+    ));
+  }
+}
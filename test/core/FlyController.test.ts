@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { ActionMap, DEFAULT_FLY_BINDINGS, SimulatedInputSource } from "../../src/core/ActionMap";
+import { Camera } from "../../src/core/Camera";
+import { FlyController } from "../../src/core/FlyController";
+import { Vec3 } from "../../src/math/vec3";
+
+function setup() {
+  const input = new SimulatedInputSource();
+  const controller = new FlyController(0, 0, { actions: new ActionMap(DEFAULT_FLY_BINDINGS, input) });
+  const camera = new Camera(Vec3.zero());
+  const forward = () => camera.orientation.rotateVec3(new Vec3(0, 0, -1));
+  return { input, controller, camera, forward };
+}
+
+describe("FlyController turn direction", () => {
+  it("turns left (towards -X when looking down -Z) on ArrowLeft", () => {
+    const { input, controller, camera, forward } = setup();
+    input.pressKey("ArrowLeft");
+    controller.update(camera, 0.5);
+    expect(controller.yaw).toBeGreaterThan(0);
+    expect(forward().x).toBeLessThan(0);
+  });
+
+  it("turns right on ArrowRight and on mouse movement to the right", () => {
+    const keys = setup();
+    keys.input.pressKey("ArrowRight");
+    keys.controller.update(keys.camera, 0.5);
+    expect(keys.forward().x).toBeGreaterThan(0);
+
+    const mouse = setup();
+    mouse.input.moveMouse(100, 0);
+    mouse.controller.update(mouse.camera, 1 / 60);
+    expect(mouse.forward().x).toBeGreaterThan(0);
+  });
+
+  it("moves along the turned view direction and strafes to its right", () => {
+    const { input, controller, camera, forward } = setup();
+    input.pressKey("ArrowLeft");
+    controller.update(camera, 0.5);
+    input.releaseKey("ArrowLeft");
+
+    input.pressKey("KeyW");
+    const start = camera.position;
+    controller.update(camera, 0.25);
+    const moved = camera.position.sub(start).normalize();
+    expect(moved.dot(forward())).toBeCloseTo(1, 9);
+    input.releaseKey("KeyW");
+
+    input.pressKey("KeyD");
+    const before = camera.position;
+    controller.update(camera, 0.25);
+    const right = camera.orientation.rotateVec3(new Vec3(1, 0, 0));
+    expect(camera.position.sub(before).normalize().dot(right)).toBeCloseTo(1, 9);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { Camera } from "../../src/core/Camera";
+import { createCube, createOctahedron, createTorus } from "../../src/core/meshGenerators";
+import { isObjectInFrustum, ObjectBvh } from "../../src/core/ObjectBvh";
+import { Object3D } from "../../src/core/Object3D";
+import { Scene } from "../../src/core/Scene";
+import { Frustum, Plane } from "../../src/math/frustum";
+import { Quat } from "../../src/math/quat";
+import { Vec3 } from "../../src/math/vec3";
+
+/** Deterministic pseudo-random numbers in [0, 1) (LCG), so failures reproduce. */
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 2 ** 32;
+  };
+}
+
+function linearCull(scene: Scene, frustum: Frustum): Set<Object3D> {
+  return new Set(scene.getAllObjects().filter((object) => isObjectInFrustum(object, frustum)));
+}
+
+describe("ObjectBvh.query", () => {
+  it("agrees with the linear test when the AABB reaches into the frustum but the sphere does not", () => {
+    // The octahedron's AABB corner (1, 1, 1) lies outside its unit bounding sphere
+    const object = new Object3D(createOctahedron());
+    const far = 1000;
+    const planes: Plane[] = [
+      { normal: new Vec3(1, 1, 1).normalize(), d: -1.2 },
+      { normal: new Vec3(-1, 0, 0), d: far },
+      { normal: new Vec3(0, 1, 0), d: far },
+      { normal: new Vec3(0, -1, 0), d: far },
+      { normal: new Vec3(0, 0, 1), d: far },
+      { normal: new Vec3(0, 0, -1), d: far },
+    ];
+    const frustum = new Frustum(planes);
+    const box = object.getWorldAabb()!;
+    expect(frustum.intersectsAabb(box.min, box.max)).toBe(true);
+    expect(isObjectInFrustum(object, frustum)).toBe(false);
+
+    const scene = new Scene(new Camera(Vec3.zero()));
+    scene.add(object);
+    const bvh = new ObjectBvh();
+    bvh.sync(scene);
+    expect(bvh.query(frustum).objects).toEqual([]);
+  });
+
+  it("returns the same objects as the linear test, also after moves and a remove", () => {
+    const next = random(42);
+    const camera = new Camera(new Vec3(0, 5, 30), Quat.fromEuler(0.3, -0.15, 0), Math.PI / 3, 0.5, 60);
+    const scene = new Scene(camera);
+    const meshes = [createCube(), createTorus()];
+    const objects: Object3D[] = [];
+    for (let i = 0; i < 200; i++) {
+      const object = new Object3D(
+        meshes[i % 2],
+        new Vec3((next() - 0.5) * 80, (next() - 0.5) * 40, (next() - 0.5) * 80),
+        { x: next() * 6, y: next() * 6, z: 0 },
+        new Vec3(0.5 + next() * 3, 0.5 + next(), 0.5 + next() * 2),
+      );
+      objects.push(object);
+      scene.add(object);
+    }
+    const frustum = () => Frustum.fromMatrix(camera.getProjectionMatrix(4 / 3).multiply(camera.getViewMatrix()));
+    const bvh = new ObjectBvh();
+
+    const expectSameAsLinear = () => {
+      bvh.sync(scene);
+      const { objects: visible, stats } = bvh.query(frustum());
+      const expected = linearCull(scene, frustum());
+      expect(new Set(visible)).toEqual(expected);
+      expect(stats.objectsVisible).toBe(expected.size);
+      expect(expected.size).toBeGreaterThan(0);
+      expect(expected.size).toBeLessThan(scene.getAllObjects().length);
+    };
+
+    expectSameAsLinear();
+    for (const object of objects.slice(0, 50)) {
+      object.position = object.position.add(new Vec3((next() - 0.5) * 20, 0, (next() - 0.5) * 20));
+    }
+    expectSameAsLinear();
+    scene.remove(objects[60]);
+    expectSameAsLinear();
+  });
+});
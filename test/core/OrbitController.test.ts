@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { Camera } from "../../src/core/Camera";
+import { OrbitController, OrbitControllerOptions } from "../../src/core/OrbitController";
+import { Vec3 } from "../../src/math/vec3";
+
+/** Minimal stand-in for the canvas: records listeners so tests can dispatch events. */
+function fakeElement() {
+  const listeners = new Map<string, (e: unknown) => void>();
+  const element = {
+    clientHeight: 600,
+    addEventListener: (type: string, listener: (e: unknown) => void) => listeners.set(type, listener),
+    removeEventListener: (type: string) => listeners.delete(type),
+  };
+  const wheel = (deltaY: number, deltaMode = 0) =>
+    listeners.get("wheel")!({ deltaY, deltaMode, preventDefault: () => {} });
+  return { element: element as unknown as HTMLElement, wheel };
+}
+
+function setup(options?: OrbitControllerOptions) {
+  const controller = new OrbitController({ distance: 10, ...options });
+  const { element, wheel } = fakeElement();
+  controller.attach(element);
+  return { controller, wheel };
+}
+
+describe("OrbitController wheel zoom", () => {
+  it("zooms as far for three wheel lines as for 48 pixels", () => {
+    const camera = new Camera(Vec3.zero());
+    const pixels = setup();
+    pixels.wheel(48);
+    pixels.controller.update(camera, 0);
+
+    const lines = setup();
+    lines.wheel(3, 1);
+    lines.controller.update(camera, 0);
+
+    expect(lines.controller.distance).toBeCloseTo(pixels.controller.distance, 12);
+    expect(pixels.controller.distance).toBeCloseTo(10 * Math.exp(48 * 0.001), 12);
+  });
+
+  it("scales page-mode deltas by the element height", () => {
+    const camera = new Camera(Vec3.zero());
+    const { controller, wheel } = setup();
+    wheel(-1, 2);
+    controller.update(camera, 0);
+    expect(controller.distance).toBeCloseTo(10 * Math.exp(-600 * 0.001), 12);
+  });
+
+  it("clamps orthographic zoom to the orthoHeight limits, not the distance limits", () => {
+    const camera = new Camera(Vec3.zero());
+    camera.projection = "orthographic";
+    camera.orthoHeight = 10;
+    const { controller, wheel } = setup({ minDistance: 5, maxDistance: 20, minOrthoHeight: 2, maxOrthoHeight: 50 });
+
+    wheel(-10000);
+    controller.update(camera, 0);
+    expect(camera.orthoHeight).toBe(2);
+    expect(controller.distance).toBe(10);
+
+    wheel(10000);
+    controller.update(camera, 0);
+    expect(camera.orthoHeight).toBe(50);
+  });
+});
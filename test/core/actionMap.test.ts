@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import {
+  ActionMap,
+  DEFAULT_FLY_BINDINGS,
+  INPUT_BINDINGS_VERSION,
+  InputBindingsJSON,
+  SimulatedInputSource,
+} from "../../src/core/ActionMap";
+
+const DT = 0.5;
+
+function flyActions() {
+  const input = new SimulatedInputSource();
+  return { input, actions: new ActionMap(DEFAULT_FLY_BINDINGS, input) };
+}
+
+function bindings(actions: InputBindingsJSON["actions"]): InputBindingsJSON {
+  return { version: INPUT_BINDINGS_VERSION, actions };
+}
+
+describe("ActionMap with a simulated source", () => {
+  it("turns held keys into rates scaled by deltaTime, with negative keys subtracting", () => {
+    const { input, actions } = flyActions();
+    input.pressKey("KeyW");
+    actions.update();
+    expect(actions.get("moveForward", DT)).toBe(DT);
+
+    input.pressKey("KeyS");
+    actions.update();
+    expect(actions.get("moveForward", DT)).toBe(0);
+
+    input.releaseKey("KeyW");
+    actions.update();
+    expect(actions.get("moveForward", DT)).toBe(-DT);
+    expect(actions.isActive("moveForward")).toBe(true);
+    expect(actions.get("strafe", DT)).toBe(0);
+    expect(actions.get("unknownAction", DT)).toBe(0);
+  });
+
+  it("latches mouse and wheel deltas per update, without deltaTime", () => {
+    const { input, actions } = flyActions();
+    actions.setAction("zoom", { bindings: [{ type: "wheel", scale: 0.5 }] });
+    input.moveMouse(30, -10);
+    input.moveMouse(10, 0);
+    input.scrollWheel(120);
+    actions.update();
+    expect(actions.get("lookYaw", DT)).toBeCloseTo(40 * -0.0025, 12);
+    expect(actions.get("lookPitch", DT)).toBeCloseTo(-10 * -0.0025, 12);
+    expect(actions.get("zoom", DT)).toBe(60);
+
+    // Deltas are consumed by the update they were latched in
+    actions.update();
+    expect(actions.get("lookYaw", DT)).toBe(0);
+    expect(actions.get("zoom", DT)).toBe(0);
+  });
+
+  it("applies the gamepad dead zone and rescales the rest to reach full speed", () => {
+    const { input, actions } = flyActions();
+    input.setGamepadAxis(0, 0, 0.1);
+    actions.update();
+    expect(actions.get("strafe", 1)).toBe(0);
+
+    input.setGamepadAxis(0, 0, 0.575);
+    actions.update();
+    expect(actions.get("strafe", 1)).toBeCloseTo(0.5, 12);
+
+    input.setGamepadAxis(0, 0, -1);
+    actions.update();
+    expect(actions.get("strafe", DT)).toBeCloseTo(-DT, 12);
+
+    // Left stick up is negative on the Gamepad API; the binding flips it to forward
+    input.setGamepadAxis(0, 1, -1);
+    actions.update();
+    expect(actions.get("moveForward", 1)).toBeCloseTo(1, 12);
+  });
+
+  it("honours per-binding dead zones, gamepad index, buttons, sensitivity and inversion", () => {
+    const input = new SimulatedInputSource();
+    const actions = new ActionMap(
+      bindings({
+        look: {
+          bindings: [{ type: "gamepadAxis", axis: 2, gamepad: 1, deadZone: 0.5 }],
+          sensitivity: 2,
+          invert: true,
+        },
+        fire: { bindings: [{ type: "gamepadButton", button: 7 }, { type: "mouseButton", button: 0 }] },
+      }),
+      input,
+    );
+
+    input.setGamepadAxis(0, 2, 1);
+    input.setGamepadAxis(1, 2, 0.4);
+    actions.update();
+    expect(actions.get("look", 1)).toBeCloseTo(0, 12);
+
+    input.setGamepadAxis(1, 2, 0.75);
+    actions.update();
+    expect(actions.get("look", 1)).toBeCloseTo(-1, 12);
+
+    input.setGamepadButton(0, 7, 0.5);
+    input.setMouseButton(0, true);
+    actions.update();
+    expect(actions.get("fire", 1)).toBeCloseTo(1.5, 12);
+
+    input.reset();
+    actions.update();
+    expect(actions.get("fire", 1)).toBe(0);
+    expect(actions.get("look", 1)).toBeCloseTo(0, 12);
+  });
+
+  it("round-trips bindings through toJSON/fromJSON", () => {
+    const { input, actions } = flyActions();
+    const copy = ActionMap.fromJSON(JSON.parse(JSON.stringify(actions.toJSON())) as InputBindingsJSON, input);
+    expect(copy.toJSON()).toEqual(actions.toJSON());
+    expect(copy.actionNames).toEqual(["moveForward", "strafe", "lookYaw", "lookPitch"]);
+  });
+
+  it("rejects invalid bindings with a descriptive error", () => {
+    const input = new SimulatedInputSource();
+    const invalid = (json: unknown) => () => new ActionMap(json as InputBindingsJSON, input);
+
+    expect(invalid({ version: 99, actions: {} })).toThrow(/unsupported format version 99/);
+    expect(invalid({ version: INPUT_BINDINGS_VERSION })).toThrow(/"actions" must be an object/);
+    expect(invalid(bindings({ jump: {} as never }))).toThrow(/action "jump" must have a "bindings" array/);
+    expect(invalid(bindings({ jump: { bindings: [{ type: "key", code: "" }] } }))).toThrow(
+      /action "jump" binding 0 needs a key "code"/,
+    );
+    expect(invalid(bindings({ look: { bindings: [{ type: "mouseAxis", axis: "z" as never }] } }))).toThrow(
+      /axis must be "x" or "y"/,
+    );
+    expect(invalid(bindings({ look: { bindings: [{ type: "gamepadAxis", axis: 0, deadZone: 1 }] } }))).toThrow(
+      /deadZone must be in \[0, 1\)/,
+    );
+    expect(invalid(bindings({ look: { bindings: [{ type: "gamepadAxis", axis: -1 }] } }))).toThrow(
+      /needs an "axis" index/,
+    );
+    expect(invalid(bindings({ look: { bindings: [{ type: "key", code: "KeyQ", scale: NaN }] } }))).toThrow(
+      /scale must be a number/,
+    );
+    expect(invalid(bindings({ look: { bindings: [{ type: "touch" } as never] } }))).toThrow(/unknown type "touch"/);
+
+    const { actions } = flyActions();
+    expect(() => actions.setAction("jump", { bindings: [{ type: "mouseButton", button: 1.5 }] })).toThrow(
+      /needs a "button" index/,
+    );
+    expect(actions.getAction("jump")).toBeUndefined();
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { mixColor, parseColor, parseColorWithAlpha, shadeColor, withAlpha } from "../../src/core/color";
+import { DepthCue } from "../../src/core/depthCue";
+import { Mat4 } from "../../src/math/mat4";
+
+describe("parseColorWithAlpha", () => {
+  it("reads every hex length", () => {
+    expect(parseColorWithAlpha("#f80")).toEqual({ r: 255, g: 136, b: 0, a: 1 });
+    expect(parseColorWithAlpha("#f808")).toEqual({ r: 255, g: 136, b: 0, a: 136 / 255 });
+    expect(parseColorWithAlpha("#FF8800")).toEqual({ r: 255, g: 136, b: 0, a: 1 });
+    expect(parseColorWithAlpha("#ff880000")).toEqual({ r: 255, g: 136, b: 0, a: 0 });
+  });
+
+  it("reads named colors, case-insensitively", () => {
+    expect(parseColorWithAlpha("red")).toEqual({ r: 255, g: 0, b: 0, a: 1 });
+    expect(parseColorWithAlpha(" RebeccaPurple ")).toEqual({ r: 102, g: 51, b: 153, a: 1 });
+    expect(parseColorWithAlpha("transparent")).toEqual({ r: 0, g: 0, b: 0, a: 0 });
+  });
+
+  it("reads rgb() and rgba() in comma and space syntax", () => {
+    expect(parseColorWithAlpha("rgb(255, 128, 0)")).toEqual({ r: 255, g: 128, b: 0, a: 1 });
+    expect(parseColorWithAlpha("rgba(255,128,0,0.5)")).toEqual({ r: 255, g: 128, b: 0, a: 0.5 });
+    expect(parseColorWithAlpha("rgb(100% 50% 0% / 25%)")).toEqual({ r: 255, g: 127.5, b: 0, a: 0.25 });
+    expect(parseColorWithAlpha("rgb(300, -5, 0, 2)")).toEqual({ r: 255, g: 0, b: 0, a: 1 });
+  });
+
+  it("returns null for formats it does not read", () => {
+    for (const color of ["hsl(0, 100%, 50%)", "#12345", "rgb(1, 2)", "rgb(1 2 3 / 4 / 5)", "notacolor", ""]) {
+      expect(parseColorWithAlpha(color)).toBeNull();
+    }
+  });
+
+  it("parseColor drops the alpha", () => {
+    expect(parseColor("rgba(1, 2, 3, 0.5)")).toEqual({ r: 1, g: 2, b: 3 });
+  });
+});
+
+describe("shadeColor / mixColor / withAlpha", () => {
+  it("work on named and rgb() colors, keeping alpha", () => {
+    expect(shadeColor("red", 0.5)).toBe("#800000");
+    expect(shadeColor("rgba(255, 255, 255, 0.5)", 0.5)).toBe("#80808080");
+    expect(mixColor("red", "blue", 0.5)).toBe("#800080");
+    expect(mixColor("white", "transparent", 1)).toBe("#00000000");
+    expect(withAlpha("red", 0.5)).toBe("#ff000080");
+    expect(withAlpha("#ff000080", 0.5)).toBe("#ff000040");
+    expect(withAlpha("#00ff00", 1)).toBe("#00ff00");
+  });
+
+  it("throw on colors they cannot parse", () => {
+    expect(() => shadeColor("hsl(0, 100%, 50%)", 0.5)).toThrow(/^Color: cannot parse "hsl/);
+    expect(() => mixColor("#fff", "bogus", 0.5)).toThrow(/"bogus"/);
+    expect(() => withAlpha("bogus", 0.5)).toThrow(/"bogus"/);
+  });
+
+  it("let depth cue fade named colors", () => {
+    expect(new DepthCue({ near: 1, far: 10 }, Mat4.identity()).colorAt("red", 1)).toBe("#000000");
+    expect(new DepthCue({ near: 1, far: 10, fade: "alpha" }, Mat4.identity()).colorAt("red", 0.5)).toBe("#ff000080");
+  });
+});
@@ -0,0 +1,202 @@
+import { describe, expect, it } from "vitest";
+import { Mesh } from "../../src/core/Mesh";
+import {
+  createCapsule,
+  createCone,
+  createCube,
+  createCylinder,
+  createDodecahedron,
+  createIcosahedron,
+  createIcosphere,
+  createOctahedron,
+  createPlane,
+  createPrism,
+  createTetrahedron,
+  createTorus,
+  createUvSphere,
+} from "../../src/core/meshGenerators";
+import { Vec3 } from "../../src/math/vec3";
+
+/** Newell normal of a polygon (unnormalized, robust for non-planar quads). */
+function polygonNormal(mesh: Mesh, indices: number[]): Vec3 {
+  let normal = Vec3.zero();
+  for (let i = 0; i < indices.length; i++) {
+    const a = mesh.vertices[indices[i]];
+    const b = mesh.vertices[indices[(i + 1) % indices.length]];
+    normal = normal.add(new Vec3((a.y - b.y) * (a.z + b.z), (a.z - b.z) * (a.x + b.x), (a.x - b.x) * (a.y + b.y)));
+  }
+  return normal;
+}
+
+function polygonCenter(mesh: Mesh, indices: number[]): Vec3 {
+  return indices.reduce((sum, i) => sum.add(mesh.vertices[i]), Vec3.zero()).scale(1 / indices.length);
+}
+
+/** Sum of v0 · (vi × vi+1) / 6 over a fan of every polygon; positive when all faces wind outward. */
+function signedVolume(mesh: Mesh): number {
+  let volume = 0;
+  for (const { vertexIndices } of mesh.polygons) {
+    const v0 = mesh.vertices[vertexIndices[0]];
+    for (let i = 1; i + 1 < vertexIndices.length; i++) {
+      volume += v0.dot(mesh.vertices[vertexIndices[i]].cross(mesh.vertices[vertexIndices[i + 1]]));
+    }
+  }
+  return volume / 6;
+}
+
+/**
+ * Every polygon's normal points away from `inside(center)`, a point inside the solid
+ * near that polygon (the origin for convex shapes).
+ */
+function expectOutward(mesh: Mesh, inside: (center: Vec3) => Vec3 = () => Vec3.zero()): void {
+  for (const { vertexIndices } of mesh.polygons) {
+    const center = polygonCenter(mesh, vertexIndices);
+    expect(polygonNormal(mesh, vertexIndices).dot(center.sub(inside(center)))).toBeGreaterThan(0);
+  }
+  expect(signedVolume(mesh)).toBeGreaterThan(0);
+}
+
+/** V - E + F: 2 for a closed sphere-like mesh, 0 for a torus, 1 for a disc. */
+function eulerCharacteristic(mesh: Mesh): number {
+  return mesh.vertices.length - mesh.edges.length + mesh.polygons.length;
+}
+
+describe("createPlane", () => {
+  it("has (w + 1) * (d + 1) vertices and w * d quads", () => {
+    const mesh = createPlane({ widthSegments: 3, depthSegments: 2 });
+    expect(mesh.vertices.length).toBe(12);
+    expect(mesh.polygons.length).toBe(6);
+    expect(mesh.polygons.every((p) => p.vertexIndices.length === 4)).toBe(true);
+    expect(eulerCharacteristic(mesh)).toBe(1);
+  });
+
+  it("faces +Y", () => {
+    const mesh = createPlane({ widthSegments: 3, depthSegments: 2 });
+    for (const { vertexIndices } of mesh.polygons) {
+      const normal = polygonNormal(mesh, vertexIndices).normalize();
+      expect(normal.y).toBeCloseTo(1, 6);
+    }
+  });
+});
+
+describe("createUvSphere", () => {
+  it("has w * (h - 1) + 2 vertices and w * h polygons", () => {
+    const mesh = createUvSphere();
+    expect(mesh.vertices.length).toBe(16 * 7 + 2);
+    expect(mesh.polygons.length).toBe(16 * 8);
+    expect(eulerCharacteristic(mesh)).toBe(2);
+  });
+
+  it("winds every polygon outward", () => {
+    expectOutward(createUvSphere());
+  });
+});
+
+describe("createIcosphere", () => {
+  it("has 10 * 4^n + 2 vertices and 20 * 4^n triangles", () => {
+    for (const subdivisions of [0, 1, 2]) {
+      const mesh = createIcosphere({ subdivisions });
+      expect(mesh.vertices.length).toBe(10 * 4 ** subdivisions + 2);
+      expect(mesh.polygons.length).toBe(20 * 4 ** subdivisions);
+      expect(eulerCharacteristic(mesh)).toBe(2);
+    }
+  });
+
+  it("winds every polygon outward", () => {
+    expectOutward(createIcosphere({ subdivisions: 2 }));
+  });
+});
+
+describe("createCylinder", () => {
+  it("has one ring per row boundary and one polygon per cap", () => {
+    const mesh = createCylinder({ radialSegments: 12, heightSegments: 3 });
+    expect(mesh.vertices.length).toBe(12 * 4);
+    expect(mesh.polygons.length).toBe(12 * 3 + 2);
+    expect(eulerCharacteristic(mesh)).toBe(2);
+  });
+
+  it("winds every polygon outward, caps included", () => {
+    expectOutward(createCylinder({ radiusTop: 0.5, radiusBottom: 1, heightSegments: 2 }));
+  });
+});
+
+describe("createCone", () => {
+  it("has r * h + 1 vertices and r * h polygons plus the base", () => {
+    const mesh = createCone({ radialSegments: 10, heightSegments: 2 });
+    expect(mesh.vertices.length).toBe(10 * 2 + 1);
+    expect(mesh.polygons.length).toBe(10 * 2 + 1);
+    expect(eulerCharacteristic(mesh)).toBe(2);
+  });
+
+  it("winds every polygon outward, base included", () => {
+    expectOutward(createCone({ heightSegments: 2 }));
+  });
+});
+
+describe("createTorus", () => {
+  it("has tubular * radial vertices and quads", () => {
+    const mesh = createTorus({ radialSegments: 6, tubularSegments: 10 });
+    expect(mesh.vertices.length).toBe(60);
+    expect(mesh.polygons.length).toBe(60);
+    expect(mesh.polygons.every((p) => p.vertexIndices.length === 4)).toBe(true);
+    expect(eulerCharacteristic(mesh)).toBe(0);
+  });
+
+  it("winds every polygon away from the middle of the tube", () => {
+    const radius = 1;
+    const middleOfTube = (center: Vec3) => new Vec3(center.x, 0, center.z).normalize().scale(radius);
+    expectOutward(createTorus({ radius, tube: 0.25 }), middleOfTube);
+  });
+});
+
+describe("createCapsule", () => {
+  it("has r * (2c + h - 1) + 2 vertices and r * (2c + h) polygons", () => {
+    const mesh = createCapsule({ radialSegments: 8, capSegments: 3, heightSegments: 2 });
+    expect(mesh.vertices.length).toBe(8 * (2 * 3 + 2 - 1) + 2);
+    expect(mesh.polygons.length).toBe(8 * (2 * 3 + 2));
+    expect(eulerCharacteristic(mesh)).toBe(2);
+  });
+
+  it("winds every polygon outward", () => {
+    expectOutward(createCapsule({ heightSegments: 2 }));
+  });
+});
+
+describe("createPrism", () => {
+  it("has 2 * sides vertices and sides + 2 polygons", () => {
+    const mesh = createPrism({ sides: 5 });
+    expect(mesh.vertices.length).toBe(10);
+    expect(mesh.polygons.length).toBe(7);
+    expect(eulerCharacteristic(mesh)).toBe(2);
+  });
+
+  it("winds every polygon outward, caps included", () => {
+    expectOutward(createPrism({ sides: 5 }));
+  });
+});
+
+describe("platonic solids", () => {
+  const solids: [string, () => Mesh, number, number, number][] = [
+    ["tetrahedron", createTetrahedron, 4, 6, 4],
+    ["cube", createCube, 8, 12, 6],
+    ["octahedron", createOctahedron, 6, 12, 8],
+    ["dodecahedron", createDodecahedron, 20, 30, 12],
+    ["icosahedron", createIcosahedron, 12, 30, 20],
+  ];
+
+  for (const [name, create, vertices, edges, polygons] of solids) {
+    describe(name, () => {
+      it(`has ${vertices} vertices, ${edges} edges and ${polygons} faces on the unit sphere`, () => {
+        const mesh = create();
+        expect(mesh.vertices.length).toBe(vertices);
+        expect(mesh.edges.length).toBe(edges);
+        expect(mesh.polygons.length).toBe(polygons);
+        mesh.vertices.forEach((v) => expect(v.length()).toBeCloseTo(1, 6));
+      });
+
+      it("winds every face outward", () => {
+        expectOutward(create());
+      });
+    });
+  }
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { Camera } from "../../src/core/Camera";
+import { Mesh } from "../../src/core/Mesh";
+import { createCube } from "../../src/core/meshGenerators";
+import { Object3D } from "../../src/core/Object3D";
+import { RecordingRenderTarget } from "../../src/core/RecordingRenderTarget";
+import { renderFrame, RenderFrameOptions } from "../../src/core/renderFrame";
+import { Scene } from "../../src/core/Scene";
+import { Quat } from "../../src/math/quat";
+import { Vec3 } from "../../src/math/vec3";
+
+/** Unit cube with every quad split into two triangles (12 triangles, 18 edges). */
+function triangulatedCube(): Mesh {
+  const cube = createCube();
+  const polygons = cube.polygons.flatMap(({ color, vertexIndices: [a, b, c, d] }) => [
+    { color, vertexIndices: [a, b, c] },
+    { color, vertexIndices: [a, c, d] },
+  ]);
+  return new Mesh(cube.vertices, polygons);
+}
+
+function render(camera: Camera, options: RenderFrameOptions): Array<[number, number, number, number]> {
+  const scene = new Scene(camera);
+  scene.add(new Object3D(triangulatedCube()));
+  const target = new RecordingRenderTarget(400, 400);
+  renderFrame(target, scene, options);
+  return target.commands.flatMap((command) => (command.type === "lines" ? command.segments : []));
+}
+
+describe("renderFrame", () => {
+  const obliqueCamera = () =>
+    new Camera(new Vec3(3, 2.5, 4), Quat.fromEuler(0.6, -0.4, 0), Math.PI / 3, 0.1, 100);
+
+  it("draws every polygon side without uniqueEdges", () => {
+    expect(render(obliqueCamera(), {}).length).toBe(36);
+  });
+
+  it("draws each of the 18 edges of a triangulated cube once with uniqueEdges", () => {
+    expect(triangulatedCube().edges.length).toBe(18);
+    expect(render(obliqueCamera(), { uniqueEdges: true }).length).toBe(18);
+  });
+
+  it("keeps only the front face (4 sides and its diagonal) of a cube seen head-on with hidden-line removal", () => {
+    const camera = new Camera(new Vec3(0, 0, 5), Quat.identity(), Math.PI / 3, 0.1, 100);
+    const segments = render(camera, { uniqueEdges: true, applyHiddenLineRemoval: true });
+    expect(segments.length).toBe(5);
+    // Every endpoint is a corner of the front face's screen square
+    const xs = new Set(segments.flatMap(([x1, , x2]) => [x1.toFixed(3), x2.toFixed(3)]));
+    const ys = new Set(segments.flatMap(([, y1, , y2]) => [y1.toFixed(3), y2.toFixed(3)]));
+    expect(xs.size).toBe(2);
+    expect(ys.size).toBe(2);
+  });
+});
@@ -0,0 +1,53 @@
+import { deflateSync, inflateSync } from "zlib";
+import { describe, expect, it } from "vitest";
+import { encodePng } from "../../src/io/pngEncoder";
+
+/** Concatenated IDAT payload of a PNG file. */
+function idatData(png: Uint8Array): Uint8Array {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const parts: number[] = [];
+  for (let offset = 8; offset < png.length; ) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    if (type === "IDAT") parts.push(...png.subarray(offset + 8, offset + 8 + length));
+    offset += 12 + length;
+  }
+  return Uint8Array.from(parts);
+}
+
+/** Mostly black 80x60 image with one white row, like a wireframe thumbnail. */
+function image(): Uint8ClampedArray {
+  const rgba = new Uint8ClampedArray(80 * 60 * 4);
+  for (let i = 3; i < rgba.length; i += 4) rgba[i] = 255;
+  rgba.fill(255, 30 * 80 * 4, 31 * 80 * 4);
+  return rgba;
+}
+
+/** Scanlines as encodePng filters them: a 0 (no filter) byte before each row. */
+function scanlines(rgba: Uint8ClampedArray, width: number): Uint8Array {
+  const stride = width * 4;
+  const rows = rgba.length / stride;
+  const out = new Uint8Array(rows * (stride + 1));
+  for (let y = 0; y < rows; y++) out.set(rgba.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  return out;
+}
+
+describe("encodePng", () => {
+  it("stores the scanlines uncompressed without a deflate function", () => {
+    const rgba = image();
+    const png = encodePng(80, 60, rgba);
+    expect(png.length).toBeGreaterThan(rgba.length);
+    expect(inflateSync(idatData(png))).toEqual(Buffer.from(scanlines(rgba, 80)));
+  });
+
+  it("compresses the scanlines with the given deflate function", () => {
+    const rgba = image();
+    const png = encodePng(80, 60, rgba, { deflate: (data) => deflateSync(data) });
+    expect(png.length).toBeLessThan(rgba.length / 20);
+    expect(inflateSync(idatData(png))).toEqual(Buffer.from(scanlines(rgba, 80)));
+  });
+
+  it("rejects a buffer of the wrong size", () => {
+    expect(() => encodePng(2, 2, new Uint8ClampedArray(4))).toThrow(/expected 16 bytes/);
+  });
+});
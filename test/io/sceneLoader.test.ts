@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import { Camera } from "../../src/core/Camera";
+import { createCube, createTetrahedron } from "../../src/core/meshGenerators";
+import { Object3D } from "../../src/core/Object3D";
+import { Scene } from "../../src/core/Scene";
+import { MeshJSON } from "../../src/io/meshLoader";
+import { loadScene, SCENE_FORMAT_VERSION, SceneJSON, serializeScene } from "../../src/io/sceneLoader";
+import { Quat } from "../../src/math/quat";
+import { Vec3 } from "../../src/math/vec3";
+
+function sceneWithMesh(mesh: MeshJSON): SceneJSON {
+  return {
+    version: SCENE_FORMAT_VERSION,
+    camera: {
+      position: { x: 0, y: 0, z: 5 },
+      orientation: { x: 0, y: 0, z: 0, w: 1 },
+      fovYRad: 1,
+      near: 0.1,
+      far: 100,
+    },
+    meshes: { tri: { inline: mesh } },
+    objects: [
+      { mesh: "tri", position: { x: 0, y: 0, z: 0 }, rotation: { x: 0, y: 0, z: 0 }, scale: { x: 1, y: 1, z: 1 } },
+    ],
+  };
+}
+
+const vertices = [
+  { x: 0, y: 0, z: 0 },
+  { x: 1, y: 0, z: 0 },
+  { x: 0, y: 1, z: 0 },
+];
+
+describe("loadScene mesh checks", () => {
+  it("trusts meshes by default", async () => {
+    const json = sceneWithMesh({ vertices, polygons: [{ color: "#fff", vertexIndices: [0, 1, 5] }] });
+    const scene = await loadScene(json);
+    expect(scene.objects[0].mesh?.polygons[0].vertexIndices).toEqual([0, 1, 5]);
+  });
+
+  it("rejects invalid meshes in strict mode, naming the mesh", async () => {
+    const json = sceneWithMesh({ vertices, polygons: [{ color: "#fff", vertexIndices: [0, 1, 5] }] });
+    await expect(loadScene(json, { meshLoad: { mode: "strict" } })).rejects.toThrow(
+      /^Scene: mesh "tri" is invalid: .*outside 0\.\.2/,
+    );
+  });
+
+  it("rejects polygons without a color in strict mode", async () => {
+    const json = sceneWithMesh({ vertices, polygons: [{ vertexIndices: [0, 1, 2] } as never] });
+    await expect(loadScene(json, { meshLoad: { mode: "strict" } })).rejects.toThrow(/mesh "tri" is invalid/);
+  });
+
+  it("repairs meshes in lenient mode and reports what it found", async () => {
+    const json = sceneWithMesh({
+      vertices,
+      polygons: [
+        { color: "#fff", vertexIndices: [0, 1, 2] },
+        { color: "#fff", vertexIndices: [0, 1, 5] },
+      ],
+    });
+    const codes: string[] = [];
+    const scene = await loadScene(json, {
+      meshLoad: { mode: "lenient", onReport: (report) => codes.push(...report.issues.map((issue) => issue.code)) },
+    });
+    expect(scene.objects[0].mesh?.polygons.length).toBe(1);
+    expect(codes).toContain("indexOutOfRange");
+  });
+});
+
+describe("serializeScene / loadScene round trip", () => {
+  function buildScene(): Scene {
+    const camera = new Camera(new Vec3(1, 7.5, -3), Quat.fromEuler(0.4, -0.3, 0.1), 0.9, 0.5, 250);
+    camera.projection = "orthographic";
+    camera.orthoHeight = 12;
+    const scene = new Scene(camera);
+
+    const hull = createCube({ color: ["#ff0000", "#00ff00", "#0000ff"] });
+    const turret = createTetrahedron({ radius: 0.5, color: "#abcdef" });
+    const ship = new Object3D(hull, new Vec3(2, 0, -1), { x: 0.1, y: 1.2, z: 0 }, new Vec3(3, 1, 2), "ship");
+    const mount = new Object3D(null, new Vec3(0, 1, 0), undefined, undefined, "mount");
+    mount.add(new Object3D(turret, new Vec3(0, 0.5, 0), { x: 0, y: 0, z: 0.7 }, new Vec3(1, 2, 1), "turret"));
+    ship.add(mount);
+    scene.add(ship);
+    scene.add(new Object3D(hull, new Vec3(-5, 0, 0), undefined, new Vec3(0.5, 0.5, 0.5), "escort"));
+    return scene;
+  }
+
+  function flatten(objects: readonly Object3D[]): Object3D[] {
+    return objects.flatMap((object) => [object, ...flatten(object.children)]);
+  }
+
+  it("restores camera, hierarchy, transforms, shared meshes and colours", async () => {
+    const original = buildScene();
+    const json = serializeScene(original);
+    const loaded = await loadScene(JSON.parse(JSON.stringify(json)) as SceneJSON);
+
+    const [a, b] = [original.camera, loaded.camera];
+    expect(b.position).toEqual(a.position);
+    expect([b.orientation.x, b.orientation.y, b.orientation.z, b.orientation.w]).toEqual([
+      a.orientation.x,
+      a.orientation.y,
+      a.orientation.z,
+      a.orientation.w,
+    ]);
+    expect([b.fovYRad, b.near, b.far, b.projection, b.orthoHeight]).toEqual([0.9, 0.5, 250, "orthographic", 12]);
+
+    const before = flatten(original.objects);
+    const after = flatten(loaded.objects);
+    expect(after.map((o) => [o.name, o.parent?.name ?? null, o.children.length])).toEqual(
+      before.map((o) => [o.name, o.parent?.name ?? null, o.children.length]),
+    );
+    after.forEach((object, i) => {
+      const source = before[i];
+      expect(object.position).toEqual(source.position);
+      expect(object.rotation).toEqual(source.rotation);
+      expect(object.scale).toEqual(source.scale);
+      expect(Array.from(object.getWorldMatrix().m)).toEqual(Array.from(source.getWorldMatrix().m));
+      expect(object.mesh?.vertices).toEqual(source.mesh?.vertices);
+      expect(object.mesh?.polygons).toEqual(source.mesh?.polygons);
+    });
+
+    // The hull is shared by "ship" and "escort" and stays one Mesh after loading
+    expect(loaded.objects[0].mesh).toBe(loaded.objects[1].mesh);
+    expect(new Set(loaded.objects[0].mesh!.polygons.map((p) => p.color))).toEqual(
+      new Set(["#ff0000", "#00ff00", "#0000ff"]),
+    );
+  });
+
+  it("serializes the loaded scene to the same JSON", async () => {
+    const json = serializeScene(buildScene());
+    const loaded = await loadScene(JSON.parse(JSON.stringify(json)) as SceneJSON);
+    expect(serializeScene(loaded)).toEqual(json);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { parseStl } from "../../src/io/stlLoader";
+
+const TRIANGLE = [
+  [0, 0, 0],
+  [1, 0, 0],
+  [0, 1, 0],
+];
+
+/** Binary STL with the given triangles, followed by `padding` zero bytes. */
+function binaryStl(triangles: number[][][], padding = 0): ArrayBuffer {
+  const buffer = new ArrayBuffer(84 + triangles.length * 50 + padding);
+  const view = new DataView(buffer);
+  view.setUint32(80, triangles.length, true);
+  triangles.forEach((triangle, i) => {
+    triangle.forEach((vertex, k) => {
+      vertex.forEach((c, axis) => view.setFloat32(84 + i * 50 + 12 + k * 12 + axis * 4, c, true));
+    });
+  });
+  return buffer;
+}
+
+function asciiStl(text: string): ArrayBuffer {
+  return new TextEncoder().encode(text).buffer as ArrayBuffer;
+}
+
+describe("parseStl", () => {
+  it("reads binary files whose size matches the header", () => {
+    const data = parseStl(binaryStl([TRIANGLE]));
+    expect(data.vertices.length).toBe(3);
+    expect(data.polygons.map((p) => p.vertexIndices)).toEqual([[0, 1, 2]]);
+  });
+
+  it("reads binary files with trailing bytes", () => {
+    const data = parseStl(binaryStl([TRIANGLE], 2));
+    expect(data.vertices.length).toBe(3);
+    expect(data.polygons.length).toBe(1);
+  });
+
+  it("reads ASCII facets", () => {
+    const data = parseStl(
+      asciiStl(`solid part
+  facet normal 0 0 1
+    outer loop
+      vertex 0 0 0
+      vertex 1 0 0
+      vertex 0 1 0
+    endloop
+  endfacet
+endsolid part
+`),
+    );
+    expect(data.vertices.length).toBe(3);
+    expect(data.polygons.length).toBe(1);
+  });
+
+  it("throws when there are no facets", () => {
+    expect(() => parseStl(asciiStl("solid x\nendsolid x\n"))).toThrow(/no facets/);
+    expect(() => parseStl(binaryStl([]))).toThrow(/no facets/);
+    expect(() => parseStl(binaryStl([], 16))).toThrow(/no facets/);
+  });
+});
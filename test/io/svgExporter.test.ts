@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import type { ProjectSceneResult } from "../../src/core/renderHelpers";
+import { exportSvg, mergeSegments } from "../../src/io/svgExporter";
+
+function frame(batches: ProjectSceneResult["batches"]): ProjectSceneResult {
+  return {
+    batches,
+    debugNormalSegments: [],
+    cullingStats: { nodesTested: 0, nodesCulled: 0, objectsTested: 0, objectsCulled: 0, objectsVisible: 0 },
+  };
+}
+
+const SQUARE: Array<[number, number, number, number]> = [
+  [10, 10, 50, 10],
+  [50, 10, 90, 10],
+  [90, 10, 90, 90],
+  [90, 90, 10, 90],
+  [10, 90, 10, 10],
+];
+
+describe("mergeSegments", () => {
+  it("chains connected segments and drops collinear middle points", () => {
+    expect(mergeSegments(SQUARE)).toEqual([
+      [
+        [10, 10],
+        [90, 10],
+        [90, 90],
+        [10, 90],
+        [10, 10],
+      ],
+    ]);
+  });
+
+  it("starts a new polyline at a gap", () => {
+    expect(mergeSegments([[0, 0, 1, 0], [5, 5, 6, 6]]).length).toBe(2);
+  });
+});
+
+describe("exportSvg", () => {
+  it("writes the background, fills and strokes in draw order", () => {
+    const svg = exportSvg(
+      frame([
+        { color: "#ff0000", segments: SQUARE, fillPoints: [[10, 10], [90, 10], [90, 90]], fillColor: "#00ff00", lineWidth: 3 },
+        { color: "#0000ff", segments: [[0, 0, 100, 100]] },
+      ]),
+      { width: 100, height: 100 },
+      { background: "#000000" },
+    );
+
+    expect(svg).toMatch(/^<\?xml/);
+    expect(svg).toContain('<svg xmlns="http://www.w3.org/2000/svg" width="100" height="100" viewBox="0 0 100 100">');
+    const elements = svg.split("\n").filter((line) => line.startsWith("  <")).map((line) => line.trim().split(/[ >]/)[0]);
+    expect(elements).toEqual(["<rect", "<polygon", "<polyline", "<line"]);
+    expect(svg).toContain('<polygon points="10,10 90,10 90,90" fill="#00ff00"/>');
+    expect(svg).toContain('points="10,10 90,10 90,90 10,90 10,10" fill="none" stroke="#ff0000" stroke-width="3"');
+    expect(svg).toContain('<line x1="0" y1="0" x2="100" y2="100" fill="none" stroke="#0000ff" stroke-width="1"');
+  });
+
+  it("writes translucent colors as an opaque color plus an opacity attribute", () => {
+    const svg = exportSvg(
+      frame([
+        { color: "#ff000080", segments: [[0, 0, 10, 10]], fillPoints: [[0, 0], [10, 0], [10, 10]], fillColor: "rgba(0, 0, 255, 0.25)" },
+        { color: "red", segments: [[20, 20, 30, 30]] },
+      ]),
+      { width: 100, height: 100 },
+    );
+
+    expect(svg).not.toMatch(/#[0-9a-f]{8}/);
+    expect(svg).toContain('fill="#0000ff" fill-opacity="0.25"/>');
+    expect(svg).toContain('fill="none" stroke="#ff0000" stroke-opacity="0.502" stroke-width="1"');
+    expect(svg).toContain('fill="none" stroke="red" stroke-width="1"');
+  });
+});
@@ -0,0 +1,19 @@
+import { describe, expect, it } from "vitest";
+import { resolveRelativeUrl } from "../../src/io/url";
+
+describe("resolveRelativeUrl", () => {
+  it("replaces the last path segment of the base", () => {
+    expect(resolveRelativeUrl("models/ship.obj", "ship.mtl")).toBe("models/ship.mtl");
+    expect(resolveRelativeUrl("https://example.com/a/scene.json", "../m/cube.json")).toBe(
+      "https://example.com/a/../m/cube.json",
+    );
+    expect(resolveRelativeUrl("ship.obj", "ship.mtl")).toBe("ship.mtl");
+    expect(resolveRelativeUrl(undefined, "cube.json")).toBe("cube.json");
+  });
+
+  it("keeps absolute paths and URLs with a scheme", () => {
+    expect(resolveRelativeUrl("models/ship.obj", "/materials/a.mtl")).toBe("/materials/a.mtl");
+    expect(resolveRelativeUrl("models/ship.obj", "https://cdn.example.com/a.mtl")).toBe("https://cdn.example.com/a.mtl");
+    expect(resolveRelativeUrl("models/ship.obj", "data:text/plain,newmtl%20a")).toBe("data:text/plain,newmtl%20a");
+  });
+});
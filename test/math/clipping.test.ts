@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { clipPolygon, clipSegment } from "../../src/math/clipping";
+import { EPSILON } from "../../src/math/utils";
+import { Vec4 } from "../../src/math/vec4";
+
+/** Inside all six planes (-w <= x, y, z <= w), allowing for rounding at the planes. */
+function expectInsideFrustum(p: Vec4): void {
+  expect(p.w).toBeGreaterThan(EPSILON);
+  for (const c of [p.x, p.y, p.z]) {
+    expect(Math.abs(c)).toBeLessThanOrEqual(p.w + 1e-9);
+  }
+}
+
+describe("clipPolygon", () => {
+  // Two corners in front of the camera, one behind it (w < 0)
+  const front1 = new Vec4(0, 0, 0.5, 1);
+  const front2 = new Vec4(-0.2, 0.3, 0.5, 1);
+  const behind = new Vec4(0.2, 0, -2, -1);
+
+  it("cuts a polygon crossing w = 0 at the near plane", () => {
+    const clipped = clipPolygon([front1, behind, front2]);
+    expect(clipped.length).toBe(4);
+    clipped.forEach(expectInsideFrustum);
+    expect(clipped).toContainEqual(front1);
+    expect(clipped).toContainEqual(front2);
+    // The two new corners lie on the near plane (z = -w)
+    const onNear = clipped.filter((p) => Math.abs(p.z + p.w) < 1e-9);
+    expect(onNear.length).toBe(2);
+  });
+
+  it("returns nothing for a polygon entirely behind the camera", () => {
+    expect(clipPolygon([behind, new Vec4(0, 1, -2, -1), new Vec4(1, 0, -3, -2)])).toEqual([]);
+  });
+
+  it("returns nothing for a polygon through the eye point", () => {
+    expect(clipPolygon([new Vec4(0, 0, 0, 0), front1, front2])).toEqual([]);
+  });
+});
+
+describe("clipSegment", () => {
+  it("keeps the front part of a segment crossing w = 0", () => {
+    const a = new Vec4(0, 0, 0.5, 1);
+    const clipped = clipSegment(a, new Vec4(0.2, 0, -2, -1));
+    expect(clipped).not.toBeNull();
+    const [start, end] = clipped!;
+    expect(start).toEqual(a);
+    expectInsideFrustum(end);
+    expect(end.z).toBeCloseTo(-end.w, 9);
+  });
+});
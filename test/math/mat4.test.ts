@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { Mat4 } from "../../src/math/mat4";
+import { Quat } from "../../src/math/quat";
+import { Vec3 } from "../../src/math/vec3";
+import { degToRad } from "../../src/math/utils";
+
+// Mat4 stores Float32Array elements, so compare to about 1e-5.
+const DIGITS = 5;
+
+function expectMatClose(actual: Mat4, expected: Mat4): void {
+  actual.m.forEach((value, i) => expect(value).toBeCloseTo(expected.m[i], DIGITS));
+}
+
+function expectVecClose(actual: Vec3, expected: Vec3): void {
+  expect(actual.x).toBeCloseTo(expected.x, DIGITS);
+  expect(actual.y).toBeCloseTo(expected.y, DIGITS);
+  expect(actual.z).toBeCloseTo(expected.z, DIGITS);
+}
+
+/** q and -q are the same rotation. */
+function expectSameRotation(actual: Quat, expected: Quat): void {
+  expect(Math.abs(actual.dot(expected))).toBeCloseTo(1, DIGITS);
+}
+
+describe("Mat4.inverse", () => {
+  it("returns the identity for the identity", () => {
+    expectMatClose(Mat4.identity().inverse()!, Mat4.identity());
+  });
+
+  it("multiplies back to the identity for an affine TRS matrix", () => {
+    const m = Mat4.compose(new Vec3(1, -2, 3), Quat.fromEuler(0.3, -0.7, 1.1), new Vec3(2, 0.5, 3));
+    expectMatClose(m.multiply(m.inverse()!), Mat4.identity());
+    expectMatClose(m.inverse()!.multiply(m), Mat4.identity());
+  });
+
+  it("inverts a perspective projection", () => {
+    const p = Mat4.perspective(degToRad(60), 4 / 3, 0.1, 100);
+    expectMatClose(p.multiply(p.inverse()!), Mat4.identity());
+  });
+
+  it("returns null for a singular matrix", () => {
+    expect(Mat4.scaling(1, 0, 1).inverse()).toBeNull();
+    expect(new Mat4(0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0).inverse()).toBeNull();
+  });
+});
+
+describe("Mat4.decompose", () => {
+  it("recovers translation, rotation and non-uniform scale", () => {
+    const translation = new Vec3(4, -1, 2.5);
+    const rotation = Quat.fromEuler(0.8, 0.2, -0.5);
+    const scale = new Vec3(1, 3, 0.25);
+    const parts = Mat4.compose(translation, rotation, scale).decompose();
+
+    expectVecClose(parts.translation, translation);
+    expectSameRotation(parts.rotation, rotation);
+    expectVecClose(parts.scale, scale);
+  });
+
+  it("round-trips through compose with non-uniform scale", () => {
+    const m = Mat4.compose(new Vec3(0, 5, -3), Quat.fromAxisAngle(new Vec3(1, 1, 0), 2), new Vec3(0.1, 7, 2));
+    const { translation, rotation, scale } = m.decompose();
+    expectMatClose(Mat4.compose(translation, rotation, scale), m);
+  });
+
+  it("gives a mirroring matrix a negative x scale", () => {
+    const m = Mat4.compose(new Vec3(1, 2, 3), Quat.fromEuler(-0.4, 0.9, 0.1), new Vec3(2, -3, 4));
+    expect(m.determinant()).toBeLessThan(0);
+
+    const { translation, rotation, scale } = m.decompose();
+    expect(scale.x).toBeLessThan(0);
+    expect(Math.abs(scale.y)).toBeCloseTo(3, DIGITS);
+    expectMatClose(Mat4.compose(translation, rotation, scale), m);
+  });
+});
+
+describe("Mat4.lookAt", () => {
+  it("maps the eye to the origin and the target onto -Z", () => {
+    const eye = new Vec3(3, 4, 5);
+    const target = new Vec3(-1, 0, 2);
+    const view = Mat4.lookAt(eye, target);
+
+    expectVecClose(view.transformPoint(eye), Vec3.zero());
+    const t = view.transformPoint(target);
+    expect(t.x).toBeCloseTo(0, DIGITS);
+    expect(t.y).toBeCloseTo(0, DIGITS);
+    expect(t.z).toBeCloseTo(-Vec3.distance(eye, target), DIGITS);
+  });
+
+  it("keeps the up vector in the upper half of the view", () => {
+    const view = Mat4.lookAt(new Vec3(0, 0, 10), Vec3.zero());
+    expectMatClose(view, Mat4.translation(0, 0, -10));
+    expect(view.transformDirection(new Vec3(0, 1, 0)).y).toBeGreaterThan(0);
+  });
+
+  it("is a rigid transform", () => {
+    const view = Mat4.lookAt(new Vec3(1, 2, 3), new Vec3(4, -5, 6));
+    expect(view.determinant()).toBeCloseTo(1, DIGITS);
+  });
+
+  it("falls back to another up vector when looking straight up or down", () => {
+    for (const target of [new Vec3(0, 10, 0), new Vec3(0, -10, 0)]) {
+      const view = Mat4.lookAt(Vec3.zero(), target);
+      view.m.forEach((value) => expect(Number.isFinite(value)).toBe(true));
+      expect(view.determinant()).toBeCloseTo(1, DIGITS);
+      const t = view.transformPoint(target);
+      expect(t.x).toBeCloseTo(0, DIGITS);
+      expect(t.y).toBeCloseTo(0, DIGITS);
+      expect(t.z).toBeCloseTo(-10, DIGITS);
+    }
+  });
+});
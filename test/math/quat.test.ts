@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { Quat } from "../../src/math/quat";
+import { Vec3 } from "../../src/math/vec3";
+import { degToRad } from "../../src/math/utils";
+
+const DIGITS = 6;
+
+function expectVecClose(actual: Vec3, expected: Vec3): void {
+  expect(actual.x).toBeCloseTo(expected.x, DIGITS);
+  expect(actual.y).toBeCloseTo(expected.y, DIGITS);
+  expect(actual.z).toBeCloseTo(expected.z, DIGITS);
+}
+
+/** q and -q are the same rotation. */
+function expectSameRotation(actual: Quat, expected: Quat): void {
+  expect(Math.abs(actual.dot(expected))).toBeCloseTo(1, DIGITS);
+}
+
+describe("Quat.fromEuler", () => {
+  it("applies yaw about Y, pitch about X and roll about Z", () => {
+    const yaw = Quat.fromEuler(Math.PI / 2, 0, 0);
+    expectVecClose(yaw.rotateVec3(new Vec3(0, 0, -1)), new Vec3(-1, 0, 0));
+
+    const pitch = Quat.fromEuler(0, Math.PI / 2, 0);
+    expectVecClose(pitch.rotateVec3(new Vec3(0, 0, -1)), new Vec3(0, 1, 0));
+
+    const roll = Quat.fromEuler(0, 0, Math.PI / 2);
+    expectVecClose(roll.rotateVec3(new Vec3(1, 0, 0)), new Vec3(0, 1, 0));
+  });
+
+  it("composes as yaw * pitch * roll", () => {
+    const [yaw, pitch, roll] = [0.7, -0.3, 1.2];
+    const expected = Quat.fromAxisAngle(new Vec3(0, 1, 0), yaw)
+      .multiply(Quat.fromAxisAngle(new Vec3(1, 0, 0), pitch))
+      .multiply(Quat.fromAxisAngle(new Vec3(0, 0, 1), roll));
+    expectSameRotation(Quat.fromEuler(yaw, pitch, roll), expected);
+  });
+
+  it("returns unit quaternions", () => {
+    expect(Quat.fromEuler(1, 2, 3).length()).toBeCloseTo(1, DIGITS);
+  });
+});
+
+describe("Quat.toEuler", () => {
+  it("round-trips angles away from the poles", () => {
+    for (const [yaw, pitch, roll] of [
+      [0, 0, 0],
+      [0.5, 0.25, -0.75],
+      [-2.5, -1.2, 3],
+      [3, 1.5, -0.1],
+    ]) {
+      const e = Quat.fromEuler(yaw, pitch, roll).toEuler();
+      expect(e.yaw).toBeCloseTo(yaw, DIGITS);
+      expect(e.pitch).toBeCloseTo(pitch, DIGITS);
+      expect(e.roll).toBeCloseTo(roll, DIGITS);
+    }
+  });
+
+  it("reports roll 0 at the poles and keeps the rotation", () => {
+    for (const pitch of [Math.PI / 2, -Math.PI / 2]) {
+      const q = Quat.fromEuler(0.6, pitch, 0.4);
+      const e = q.toEuler();
+      expect(e.pitch).toBeCloseTo(pitch, 3);
+      expect(e.roll).toBe(0);
+      expectSameRotation(Quat.fromEuler(e.yaw, e.pitch, e.roll), q);
+    }
+  });
+
+  it("stays finite next to the poles", () => {
+    const q = Quat.fromEuler(1, degToRad(89.9999), -1);
+    const e = q.toEuler();
+    for (const angle of [e.yaw, e.pitch, e.roll]) expect(Number.isFinite(angle)).toBe(true);
+    expectSameRotation(Quat.fromEuler(e.yaw, e.pitch, e.roll), q);
+  });
+});
+
+describe("Quat.slerp", () => {
+  const a = Quat.identity();
+  const b = Quat.fromAxisAngle(new Vec3(0, 1, 0), Math.PI / 2);
+
+  it("returns the endpoints at t = 0 and t = 1", () => {
+    expectSameRotation(a.slerp(b, 0), a);
+    expectSameRotation(a.slerp(b, 1), b);
+  });
+
+  it("moves at constant angular speed", () => {
+    for (const t of [0.25, 0.5, 0.75]) {
+      const q = a.slerp(b, t);
+      expect(q.length()).toBeCloseTo(1, DIGITS);
+      expect(a.angleTo(q)).toBeCloseTo((Math.PI / 2) * t, DIGITS);
+    }
+  });
+
+  it("takes the shorter arc when the quaternions are in opposite hemispheres", () => {
+    const negated = new Quat(-b.x, -b.y, -b.z, -b.w);
+    const q = a.slerp(negated, 0.5);
+    expectSameRotation(q, Quat.fromAxisAngle(new Vec3(0, 1, 0), Math.PI / 4));
+  });
+
+  it("stays normalized for nearly identical rotations", () => {
+    const c = Quat.fromAxisAngle(new Vec3(1, 0, 0), 1e-4);
+    const q = a.slerp(c, 0.5);
+    expect(q.length()).toBeCloseTo(1, DIGITS);
+    expectSameRotation(q, Quat.fromAxisAngle(new Vec3(1, 0, 0), 5e-5));
+  });
+});